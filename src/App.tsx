@@ -1,432 +1,212 @@
 import React from "react";
-import { applyItem } from "./game/actions/items";
+import type { ItemInstance, MinigameInputSample, MinigameTelemetry, SabotageToolId } from "./game/types";
 import { getCachedBalanceConfig } from "./game/config";
-import type {
-  ItemId,
-  ItemInstance,
-  Job,
-  MinigameResult,
-  Phase,
-  Player,
-  RoundOutcome,
-  RoundState,
-} from "./game/types";
-import { JOBS } from "./game/types";
-import { createInitialRound, createDefaultPlayers, createJobItems, LOCAL_PLAYER_ID } from "./game/setup";
-import { createRng, shuffleArray } from "./game/rng";
+import type { ConfigIssue } from "./game/configValidation";
+import { createGameState, getLocalPlayer, getShipHealth01, reduce, type GameState } from "./game/engine";
+import { toGameAction } from "./game/events";
+import {
+  appendLoggedEvent,
+  appendMinigameRecording,
+  createMatchLog,
+  parseMatchLog,
+  recordLobbyChoices,
+  type MatchLog,
+} from "./game/replay";
+import { clearSave, readSave, writeSave, type SavedMatch } from "./game/save";
 import { InventoryPanel } from "./ui/inventory/InventoryPanel";
 import { InventoryTabButton } from "./ui/inventory/InventoryTabButton";
 import {
-  LobbyPhase,
-  RoleRevealPhase,
-  PlanPhase,
-  IgnitionPhase,
-  EngagePhase,
-  MaintenancePhase,
-  GameOverPhase,
-  type PhaseComponentProps,
+  phaseComponentMap,
+  toPhaseUIState,
   type PhaseUIDispatch,
   type PhaseUIHelpers,
-  type PhaseUIState,
 } from "./ui/phase";
 import { JobBadge, RoleBadge } from "./ui/atoms/Badges";
+import { CardFace } from "./ui/atoms/CardFace";
+import { ConfigIssuesBanner } from "./ui/atoms/ConfigIssuesBanner";
 import { RoundHeader } from "./ui/atoms/RoundHeader";
 import { energyLabel, jobLabel } from "./ui/helpers";
-import { resolveMinigame } from "./game/minigame";
+import { ReplayViewer } from "./ui/replay/ReplayViewer";
+import { downloadMatchLog } from "./ui/replay/download";
+import { createRng } from "./game/rng";
+import { getItemDefinition } from "./game/itemCatalog";
+import { getJobDefinition } from "./game/jobs";
+import { isItemJammed, SABOTAGE_TOOLS } from "./game/sabotage";
 import { getMinigameForJob } from "./minigames/registry";
+import type { MinigameParams } from "./minigames/simulation";
 
-type ActiveMinigame = {
-  player: Player;
-};
-
-const JOB_MINIGAME_ITEM_ID: Record<Job, ItemId> = {
-  PowerEngineer: "BOOST",
-  CoolantTech: "VENT",
-  FluxSpecialist: "EQUALIZER",
-};
-
-const JOB_MINIGAME_NAME: Record<Job, string> = {
-  PowerEngineer: "Reactor Tuning",
-  CoolantTech: "Coolant Balancing",
-  FluxSpecialist: "Flux Equalization",
-};
-
-const SHIP_HP_MAX = 10;
-const clampShipHP = (value: number) => Math.max(0, Math.min(SHIP_HP_MAX, value));
-
-const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
-const toShipHPDelta = (delta01: number) => delta01 * SHIP_HP_MAX;
-const CARD_VALUES = [1, 2, 3, 4, 5, 6, 7, 8, 9];
-const isJob = (value: unknown): value is Job =>
-  typeof value === "string" && (JOBS as readonly string[]).includes(value);
-
-const phaseComponentMap: Partial<Record<Phase, React.FC<PhaseComponentProps>>> = {
-  Lobby: LobbyPhase,
-  RoleReveal: RoleRevealPhase,
-  Plan: PlanPhase,
-  Ignition: IgnitionPhase,
-  Engage: EngagePhase,
-  Maintenance: MaintenancePhase,
-  GameOver: GameOverPhase,
+type AppProps = {
+  configIssues?: ConfigIssue[];
 };
 
-const App: React.FC = () => {
-  const [players, setPlayers] = React.useState<Player[]>(() => createDefaultPlayers());
-  const [reactorLimit, setReactorLimit] = React.useState(() => players.length * 6);
-  const [phase, setPhase] = React.useState<Phase>("Lobby");
-  const [roundIndex, setRoundIndex] = React.useState(1);
-  const [round, setRound] = React.useState<RoundState>(() => createInitialRound(1, players));
-  const [shipHP, setShipHP] = React.useState(SHIP_HP_MAX);
-  const [overloads, setOverloads] = React.useState(0);
-  const [clears, setClears] = React.useState(0);
-  const [hand, setHand] = React.useState<number[]>([]);
-  const [slotCard, setSlotCard] = React.useState<number | null>(null);
+const App: React.FC<AppProps> = ({ configIssues = [] }) => {
+  const [showConfigIssues, setShowConfigIssues] = React.useState(configIssues.length > 0);
+  const [game, setGame] = React.useState<GameState>(() => createGameState(Date.now()));
   const [isInventoryOpen, setIsInventoryOpen] = React.useState(false);
-  const [activeMinigame, setActiveMinigame] = React.useState<ActiveMinigame | null>(null);
-
-  const shipHealth01 = clamp01(shipHP / SHIP_HP_MAX);
-
-  const rngRef = React.useRef(createRng(Date.now()));
-  const jobMinigameRoundRef = React.useRef<number | null>(null);
-
-  const localPlayer = players.find((player) => player.id === LOCAL_PLAYER_ID) ?? players[0];
+  const [lastLog, setLastLog] = React.useState<MatchLog | null>(null);
+  const [replayLog, setReplayLog] = React.useState<MatchLog | null>(null);
+  const [savedMatch, setSavedMatch] = React.useState<SavedMatch | null>(() => readSave(window.localStorage));
+
+  // The engine runs synchronously against these refs so the recorder always
+  // sees the exact state each event was applied to.
+  const gameRef = React.useRef(game);
+  const logRef = React.useRef<MatchLog>(createMatchLog(game, getCachedBalanceConfig()));
+  const logStartRef = React.useRef(Date.now());
+
+  const { phase, players, round, activeMinigame } = game;
+  const shipHealth01 = getShipHealth01(game);
+  const localPlayer = getLocalPlayer(game);
   const isLocalSaboteur = localPlayer?.role === "Saboteur";
+  const isLocalEjected = Boolean(localPlayer && game.ejected.includes(localPlayer.id));
+  const minigameSeed = activeMinigame?.seed;
+  const minigameRng = React.useMemo(() => createRng(minigameSeed ?? 0), [minigameSeed]);
 
-  const dealHand = React.useCallback(() => {
-    const shuffled = shuffleArray(CARD_VALUES, rngRef.current);
-    setHand(shuffled.slice(0, 5));
-    setSlotCard(null);
-    setRound((prev) => ({
-      ...prev,
-      cardsPlayed: { ...prev.cardsPlayed, [LOCAL_PLAYER_ID]: null },
-    }));
-  }, []);
-
-  const randomCard = React.useCallback(() => 1 + Math.floor(rngRef.current.next() * 9), []);
-
-  const startGame = React.useCallback(() => {
-    setPhase("RoleReveal");
-  }, []);
-
-  const proceedFromRoleReveal = React.useCallback(() => {
-    dealHand();
-    setPhase("Plan");
-  }, [dealHand]);
-
-  const handleChooseCard = React.useCallback(
-    (value: number) => {
-      if (phase !== "Plan" || !localPlayer) return;
-      setHand((prev) => {
-        const next = [...prev];
-        const index = next.indexOf(value);
-        if (index === -1) return prev;
-        next.splice(index, 1);
-        if (slotCard != null) {
-          next.push(slotCard);
-        }
-        return next;
-      });
-      setSlotCard(value);
-      setRound((prev) => ({
-        ...prev,
-        cardsPlayed: { ...prev.cardsPlayed, [localPlayer.id]: value },
-      }));
-    },
-    [localPlayer, phase, slotCard],
-  );
+  React.useEffect(() => {
+    if (game.rejectedTransition) {
+      console.warn("Phase transition rejected:", game.rejectedTransition.reason);
+    }
+  }, [game.rejectedTransition]);
 
-  const proceedFromPlan = React.useCallback(() => {
-    if (phase !== "Plan" || !localPlayer) return;
-    if (round.cardsPlayed[localPlayer.id] == null) return;
+  // Autosave on every phase change; a finished match has nothing to resume.
+  React.useEffect(() => {
+    if (phase === "Lobby") return;
+    if (phase === "GameOver") {
+      clearSave(window.localStorage);
+      setSavedMatch(null);
+      return;
+    }
+    writeSave(window.localStorage, { state: gameRef.current, log: logRef.current });
+  }, [phase, game.roundIndex]);
 
-    setRound((prev) => {
-      const updatedCards: Record<string, number | null> = { ...prev.cardsPlayed };
-      players.forEach((player) => {
-        if (updatedCards[player.id] == null) {
-          updatedCards[player.id] = randomCard();
-        }
-      });
-      const total = Object.values(updatedCards).reduce<number>(
-        (sum, value) => sum + (value ?? 0),
-        0,
-      );
-      const energy = clamp01(total / reactorLimit);
-      return {
-        ...prev,
-        cardsPlayed: updatedCards,
-        totalBeforeItems: total,
-        totalAfterItems: total,
-        reactorEnergy01: energy,
-      };
-    });
-    setPhase("Ignition");
-  }, [localPlayer, phase, players, randomCard, reactorLimit, round.cardsPlayed]);
+  const dispatchEvent = React.useCallback<PhaseUIDispatch>((event, payload) => {
+    const current = gameRef.current;
+    const action = toGameAction(current, event, payload);
+    if (!action) return;
 
-  const proceedFromIgnition = React.useCallback(() => {
-    setIsInventoryOpen(false);
-    setPhase("Engage");
-  }, []);
+    let log = logRef.current;
+    if (action.type === "lobby.ready") {
+      log = recordLobbyChoices(log, current);
+    }
+    logRef.current = appendLoggedEvent(log, { at: Date.now() - logStartRef.current, event, payload });
 
-  const startJobMinigame = React.useCallback((player: Player) => {
-    setActiveMinigame({ player });
+    const next = reduce(current, action);
+    if (action.type === "gameOver.restart" && next.phase === "Lobby") {
+      setLastLog(logRef.current);
+      logRef.current = createMatchLog(next, getCachedBalanceConfig());
+      logStartRef.current = Date.now();
+    }
+    if (action.type === "ignition.proceed" || action.type === "gameOver.restart") {
+      setIsInventoryOpen(false);
+    }
+    gameRef.current = next;
+    setGame(next);
   }, []);
 
-  const handlePlayEngageItem = React.useCallback(
-    (player: Player, item: ItemInstance) => {
-      if (
-        phase !== "Engage" ||
-        item.used ||
-        player.id !== localPlayer?.id ||
-        activeMinigame
-      ) {
-        return;
+  const handleUseItemFromInventory = React.useCallback(
+    (item: ItemInstance, targetId?: string) => {
+      if (item.timing === "Plan") {
+        dispatchEvent("plan.useItem", { itemId: item.id, targetId });
+      } else {
+        dispatchEvent("engage.useItem", item.id);
       }
-
-      const effect = applyItem({
-        round: { totalAfterItems: round.totalAfterItems, gate: round.gate },
-        itemId: item.id,
-        context: { isBelowGate: round.totalAfterItems < round.gate },
-      });
-
-      const shipDeltaHP = toShipHPDelta(effect.deltaShip);
-      const result: MinigameResult = {
-        playerId: player.id,
-        job: player.job,
-        itemId: item.id,
-        tier: "SUCCESS",
-        percentFinished: 100,
-        deltaTotal: effect.deltaTotal,
-        deltaShipHP: shipDeltaHP,
-      };
-
-      setRound((prev) => ({
-        ...prev,
-        totalAfterItems: prev.totalAfterItems + result.deltaTotal,
-        minigameResults: [...prev.minigameResults, result],
-      }));
-      setShipHP((prev) => clampShipHP(prev + shipDeltaHP));
-      setPlayers((prev) =>
-        prev.map((p) =>
-          p.id === player.id
-            ? {
-                ...p,
-                items: p.items.map((it) => (it.id === item.id ? { ...it, used: true } : it)),
-              }
-            : p,
-        ),
-      );
     },
-    [activeMinigame, localPlayer?.id, phase, round.gate, round.totalAfterItems],
+    [dispatchEvent],
   );
 
-  const handleUseItemFromInventory = React.useCallback(
-    (item: ItemInstance) => {
-      if (!localPlayer) return;
-      handlePlayEngageItem(localPlayer, item);
-    },
-    [handlePlayEngageItem, localPlayer],
+  const handleUseSabotage = React.useCallback(
+    (toolId: SabotageToolId, targetId?: string) => dispatchEvent("sabotage.use", { toolId, targetId }),
+    [dispatchEvent],
   );
 
-  React.useEffect(() => {
-    if (phase !== "Engage") {
-      jobMinigameRoundRef.current = null;
-      return;
-    }
-    if (!localPlayer || activeMinigame) return;
-    if (jobMinigameRoundRef.current === round.index) return;
-    jobMinigameRoundRef.current = round.index;
-    startJobMinigame(localPlayer);
-  }, [activeMinigame, localPlayer, phase, round.index, startJobMinigame]);
-
   const handleMinigameComplete = React.useCallback(
-    (percentFinished: number) => {
-      if (!activeMinigame) return;
-      const player = activeMinigame.player;
-      const jobItemId = JOB_MINIGAME_ITEM_ID[player.job];
-      const resolved = resolveMinigame(percentFinished);
-
-      const adjustedResult: MinigameResult = {
-        playerId: player.id,
-        job: player.job,
-        itemId: jobItemId,
-        ...resolved,
-      };
-
-      setRound((prev) => ({
-        ...prev,
-        totalAfterItems: prev.totalAfterItems + resolved.deltaTotal,
-        minigameResults: [...prev.minigameResults, adjustedResult],
-      }));
-      setShipHP((prev) => clampShipHP(prev + resolved.deltaShipHP));
-      setActiveMinigame(null);
-      setPhase("Maintenance");
+    (percentFinished: number, inputs: MinigameInputSample[], telemetry: MinigameTelemetry, params: MinigameParams) => {
+      const current = gameRef.current;
+      const running = current.activeMinigame;
+      const player = current.players.find((p) => p.id === running?.playerId);
+      if (running && player) {
+        logRef.current = appendMinigameRecording(logRef.current, {
+          roundIndex: current.roundIndex,
+          playerId: player.id,
+          job: player.job,
+          itemId: running.itemId,
+          seed: running.seed,
+          percentFinished,
+          params,
+          inputs,
+        });
+      }
+      dispatchEvent("engage.completeMinigame", { percentFinished, telemetry });
     },
-    [activeMinigame],
+    [dispatchEvent],
   );
 
-  const resolveMaintenance = React.useCallback(() => {
-    const total = round.totalAfterItems;
-    let outcome: RoundOutcome;
-    if (total >= reactorLimit) outcome = "Overload";
-    else if (total >= round.gate) outcome = "Clear";
-    else outcome = "Fail";
-
-    let newShip = shipHP;
-    let newOverloads = overloads;
-    let newClears = clears;
-    const balance = getCachedBalanceConfig();
-
-    if (outcome === "Overload") {
-      newShip = clampShipHP(newShip - balance.overloadLoss * SHIP_HP_MAX);
-      newOverloads += 1;
-    } else if (outcome === "Fail") {
-      newShip = clampShipHP(newShip - balance.failLoss * SHIP_HP_MAX);
-    } else {
-      newClears += 1;
-      if (round.minigameResults.every((r) => r.tier === "SUCCESS")) {
-        newShip = clampShipHP(newShip + balance.allSuccessGain * SHIP_HP_MAX);
-      }
-    }
-
-    setShipHP(newShip);
-    setOverloads(newOverloads);
-    setClears(newClears);
-    setRound((prev) => ({ ...prev, outcome }));
-
-    if (newOverloads >= 2 || roundIndex >= 6) {
-      setPhase("GameOver");
-      return;
-    }
-
-    const nextRoundIndex = roundIndex + 1;
-    setRoundIndex(nextRoundIndex);
-    setRound(createInitialRound(nextRoundIndex, players));
-    setPlayers((prev) =>
-      prev.map((player) => ({
-        ...player,
-        items: player.items.map((item) =>
-          item.timing === "Engage" ? { ...item, used: false } : item,
-        ),
-      })),
-    );
-    dealHand();
-    setPhase("Plan");
-  }, [clears, dealHand, overloads, players, reactorLimit, round, roundIndex, shipHP]);
-
-  const restartGame = React.useCallback(() => {
-    const basePlayers = createDefaultPlayers();
-    setPlayers(basePlayers);
-    const limit = basePlayers.length * 6;
-    setReactorLimit(limit);
-    setShipHP(SHIP_HP_MAX);
-    setOverloads(0);
-    setClears(0);
-    setRoundIndex(1);
-    setRound(createInitialRound(1, basePlayers));
-    setHand([]);
-    setSlotCard(null);
-    setPhase("Lobby");
+  // Restores the saved state as-is. A save taken mid-Engage still holds the
+  // active minigame and its seed, so the station run starts over from scratch.
+  const resumeMatch = React.useCallback(() => {
+    if (!savedMatch) return;
+    gameRef.current = savedMatch.state;
+    logRef.current = savedMatch.log ?? createMatchLog(savedMatch.state, getCachedBalanceConfig());
+    const { events } = logRef.current;
+    logStartRef.current = Date.now() - (events.length > 0 ? events[events.length - 1].at : 0);
     setIsInventoryOpen(false);
-    setActiveMinigame(null);
+    setGame(savedMatch.state);
+  }, [savedMatch]);
+
+  const loadReplay = React.useCallback((text: string) => {
+    try {
+      setReplayLog(parseMatchLog(text));
+    } catch (error) {
+      console.warn("Could not load match log", error);
+    }
   }, []);
 
-  const dispatchEvent = React.useCallback<PhaseUIDispatch>(
-    (event, payload) => {
-      switch (event) {
-        case "lobby.rename": {
-          if (typeof payload === "string" && localPlayer) {
-            const nextName = payload.trim() || "You";
-            setPlayers((prev) =>
-              prev.map((player) =>
-                player.id === localPlayer.id ? { ...player, name: nextName } : player,
-              ),
-            );
-          }
-          break;
-        }
-        case "lobby.selectJob": {
-          if (isJob(payload) && localPlayer) {
-            setPlayers((prev) =>
-              prev.map((player) =>
-                player.id === localPlayer.id
-                  ? { ...player, job: payload, items: createJobItems(payload) }
-                  : player,
-              ),
-            );
-          }
-          break;
-        }
-        case "lobby.ready":
-          startGame();
-          break;
-        case "roleReveal.continue":
-          proceedFromRoleReveal();
-          break;
-        case "plan.chooseCard":
-          if (typeof payload === "number") {
-            handleChooseCard(payload);
-          }
-          break;
-        case "plan.lock":
-          proceedFromPlan();
-          break;
-        case "ignition.proceed":
-          proceedFromIgnition();
-          break;
-        case "maintenance.resolve":
-          resolveMaintenance();
-          break;
-        case "gameOver.restart":
-          restartGame();
-          break;
-        default:
-          break;
-      }
-    },
-    [
-      handleChooseCard,
-      localPlayer,
-      proceedFromIgnition,
-      proceedFromPlan,
-      proceedFromRoleReveal,
-      resolveMaintenance,
-      restartGame,
-      startGame,
-    ],
-  );
-
-  const phaseState: PhaseUIState = {
-    round,
-    roundIndex,
-    reactorLimit,
-    shipHealth01,
-    shipHP,
-    overloads,
-    clears,
-    hand,
-    slotCard,
-  };
+  const finishedLog = phase === "GameOver" ? logRef.current : lastLog;
 
   const helpers: PhaseUIHelpers = {
     JobBadge,
     RoleBadge,
+    CardFace,
     RoundHeader,
     jobLabel,
     energyLabel,
     openInventory: () => setIsInventoryOpen(true),
+    downloadMatchLog: finishedLog ? () => downloadMatchLog(finishedLog) : undefined,
+    openReplay: finishedLog ? () => setReplayLog(finishedLog) : undefined,
+    loadReplay,
+    resumeMatch:
+      savedMatch && phase === "Lobby"
+        ? {
+            label: `Round ${savedMatch.state.roundIndex} · ${savedMatch.state.phase}`,
+            resume: resumeMatch,
+          }
+        : undefined,
   };
 
   const CurrentPhaseComponent = phaseComponentMap[phase];
-  const hasUsableItems = localPlayer?.items.some(
-    (item) => !item.used && phase === "Engage" && item.timing === "Engage",
-  );
+  const hasUsableItems =
+    !isLocalEjected &&
+    (localPlayer?.items.some(
+      (item) => !item.used && item.timing === phase && !isItemJammed(round, localPlayer.id, item.id),
+    ) ||
+      (isLocalSaboteur &&
+        localPlayer?.sabotage.some(
+          (tool) =>
+            tool.usesLeft > 0 &&
+            SABOTAGE_TOOLS[tool.id].timing === phase &&
+            !round.sabotage.some((use) => use.playerId === localPlayer.id && use.toolId === tool.id),
+        )));
 
   const renderMinigame = () => {
-    if (!activeMinigame) return null;
-    const player = activeMinigame.player;
-    const MinigameComponent = getMinigameForJob(player.job);
-    const minigameKey = `${player.id}-${player.job}-${round.index}`;
-    const abilityName = JOB_MINIGAME_NAME[player.job];
+    const player = players.find((p) => p.id === activeMinigame?.playerId);
+    if (!player) return null;
+    const itemCheck = activeMinigame?.itemId
+      ? getItemDefinition(getCachedBalanceConfig(), activeMinigame.itemId)
+      : undefined;
+    // Item checks reuse the owning job's minigame, condensed.
+    const job = itemCheck?.job ?? player.job;
+    const MinigameComponent = getMinigameForJob(job);
+    const minigameKey = `${player.id}-${job}-${round.index}-${activeMinigame?.seed}`;
+    const abilityName = itemCheck ? `${itemCheck.name} check` : getJobDefinition(player.job).abilityName;
     return (
       <div
         key="minigame-overlay"
@@ -437,13 +217,18 @@ const App: React.FC = () => {
             <span>
               {player.name} · {jobLabel(player.job)} · {abilityName}
             </span>
-            <span className="text-[10px] uppercase tracking-wide text-emerald-300">Station Operation</span>
+            <span className="text-[10px] uppercase tracking-wide text-emerald-300">
+              {itemCheck ? "Item Skill Check" : "Station Operation"}
+            </span>
           </div>
           <MinigameComponent
             key={minigameKey}
             reactorEnergy={round.reactorEnergy01}
             shipHealth={shipHealth01}
-            onComplete={(percentFinished: number) => handleMinigameComplete(percentFinished)}
+            rng={minigameRng}
+            durationMs={itemCheck?.skillCheckMs}
+            hold={isInventoryOpen}
+            onComplete={handleMinigameComplete}
           />
         </div>
       </div>
@@ -453,10 +238,13 @@ const App: React.FC = () => {
   return (
     <div className="w-full min-h-screen bg-slate-950 text-slate-100 flex flex-col items-center py-6 px-3">
       <div className="w-full max-w-md flex flex-col gap-4">
+        {showConfigIssues && (
+          <ConfigIssuesBanner issues={configIssues} onDismiss={() => setShowConfigIssues(false)} />
+        )}
         <div className="flex justify-between items-center mb-2">
           <div>
             <div className="text-[10px] uppercase tracking-[0.25em] text-slate-500">CORE COLLAPSE</div>
-            <div className="text-xs text-slate-400">{players.length} crew · Overloads {overloads}</div>
+            <div className="text-xs text-slate-400">{players.length} crew · Overloads {game.overloads}</div>
           </div>
           <div className="text-[10px] text-slate-400 text-right">
             Phase
@@ -474,7 +262,7 @@ const App: React.FC = () => {
         <div className="relative border border-slate-800 rounded-2xl bg-slate-900/80 p-4 shadow min-h-[420px] flex items-center justify-center">
           {CurrentPhaseComponent && localPlayer ? (
             <CurrentPhaseComponent
-              state={phaseState}
+              state={toPhaseUIState(game)}
               dispatchEvent={dispatchEvent}
               localPlayer={localPlayer}
               players={players}
@@ -492,14 +280,22 @@ const App: React.FC = () => {
             <InventoryPanel
               key="inventory-panel"
               localPlayer={localPlayer}
+              players={players}
               phase={phase}
+              ejected={game.ejected}
+              round={round}
               onClose={() => setIsInventoryOpen(false)}
               onUseItem={handleUseItemFromInventory}
+              onUseSabotage={handleUseSabotage}
               jobLabel={jobLabel}
             />
           )}
 
           {activeMinigame && renderMinigame()}
+
+          {replayLog && (
+            <ReplayViewer key="replay-viewer" log={replayLog} helpers={helpers} onClose={() => setReplayLog(null)} />
+          )}
         </div>
       </div>
     </div>
@@ -1,5 +1,6 @@
-import type { ItemId, RoundState } from "../types";
+import type { ItemId, MinigameTier, RoundState } from "../types";
 import { getCachedBalanceConfig } from "../config";
+import { getItemEffect } from "../itemCatalog";
 
 export type ApplyItemContext = {
   isBelowGate?: boolean;
@@ -8,6 +9,8 @@ export type ApplyItemContext = {
 export type ApplyItemOptions = {
   round: Pick<RoundState, "totalAfterItems" | "gate">;
   itemId: ItemId;
+  /** Skill check result; items without a check resolve at SUCCESS. */
+  tier?: MinigameTier;
   context?: ApplyItemContext;
 };
 
@@ -16,27 +19,8 @@ export type ApplyItemResult = {
   deltaShip: number;
 };
 
-export const applyItem = ({ round, itemId, context }: ApplyItemOptions): ApplyItemResult => {
-  const balance = getCachedBalanceConfig();
+export const applyItem = ({ round, itemId, tier = "SUCCESS", context }: ApplyItemOptions): ApplyItemResult => {
   const isBelowGate = context?.isBelowGate ?? round.totalAfterItems < round.gate;
-
-  switch (itemId) {
-    case "BOOST":
-      return {
-        deltaTotal: balance.items.BOOST.deltaTotal,
-        deltaShip: balance.items.BOOST.deltaShip,
-      };
-    case "VENT":
-      return {
-        deltaTotal: balance.items.VENT.deltaTotal,
-        deltaShip: balance.items.VENT.deltaShip,
-      };
-    case "EQUALIZER":
-      return {
-        deltaTotal: isBelowGate ? balance.items.EQUALIZER.belowGate : balance.items.EQUALIZER.otherwise,
-        deltaShip: balance.items.EQUALIZER.deltaShip,
-      };
-    default:
-      return { deltaTotal: 0, deltaShip: 0 };
-  }
+  const effect = getItemEffect({ itemId, tier, isBelowGate, balance: getCachedBalanceConfig() });
+  return { deltaTotal: effect.deltaTotal, deltaShip: effect.deltaShipHealth01 };
 };
@@ -0,0 +1,234 @@
+import { estimateCardValue } from "./cards";
+import { getJobDefinition } from "./jobs";
+import { nextGaussian, type Rng } from "./rng";
+import type { Card, Job, MinigameTierRule, Role, SabotageToolId } from "./types";
+
+export type BotDifficulty = "easy" | "normal" | "hard";
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ["easy", "normal", "hard"];
+
+/** What a bot knows when it commits its card in Plan. */
+export type BotPlanView = {
+  hand: Card[];
+  gate: number;
+  reactorLimit: number;
+  playerCount: number;
+  deckSize: number;
+  rng: Rng;
+};
+
+/** What a bot knows when it runs its station (or an item's skill check). */
+export type BotStationView = {
+  job: Job;
+  reactorEnergy01: number;
+  shipHealth01: number;
+  total: number;
+  gate: number;
+  reactorLimit: number;
+  /** The job's outcome table, best row first. */
+  outcomes: MinigameTierRule[];
+  rng: Rng;
+};
+
+export type BotItemView = {
+  total: number;
+  gate: number;
+  reactorLimit: number;
+  /** Reactor change if the item resolves at SUCCESS. */
+  deltaTotal: number;
+  /** Ship health change (0..1 scale) if the item resolves at SUCCESS. */
+  deltaShip: number;
+  shipHealth01: number;
+};
+
+/** What a saboteur bot weighs before spending a sabotage tool. */
+export type BotSabotageView = {
+  toolId: SabotageToolId;
+  total: number;
+  gate: number;
+  reactorLimit: number;
+  /** Reactor change the tool would make; 0 for JAM and SPOOF. */
+  deltaTotal: number;
+  rng: Rng;
+};
+
+/** What a bot knows when it votes at the Tribunal. */
+export type BotVoteView = {
+  selfId: string;
+  /** How suspicious each seat still aboard looked this round. */
+  suspicion: Record<string, number>;
+  /** Fellow saboteurs; empty for the crew. */
+  allies: string[];
+  rng: Rng;
+};
+
+export type BotStrategy = {
+  chooseCard: (view: BotPlanView) => Card;
+  /** Returns the percentFinished the bot achieves. */
+  runStation: (view: BotStationView) => number;
+  /** The percentFinished of an item's skill check; `view` is the item's job. */
+  runItemCheck: (view: BotStationView) => number;
+  useItem: (view: BotItemView) => boolean;
+  useSabotage: (view: BotSabotageView) => boolean;
+  /** The seat to eject, or null to skip. */
+  vote: (view: BotVoteView) => string | null;
+};
+
+type DifficultyProfile = {
+  /** Chance of playing any card from the hand, like a distracted human. */
+  blunderChance: number;
+  /**
+   * How far a saboteur's card may stray from the one a crew bot would play.
+   * Smaller is subtler and harder to spot.
+   */
+  saboteurStray: number;
+  /** Mean and spread of percentFinished on an unstressed station. */
+  skillMean: number;
+  skillSpread: number;
+  /** Whether a saboteur will throw a run badly enough to FAIL outright. */
+  sandbagsToFail: boolean;
+  /** Chance a saboteur spends a JAM or SPOOF when it gets the chance. */
+  sabotageChance: number;
+};
+
+const DIFFICULTY_PROFILES: Record<BotDifficulty, DifficultyProfile> = {
+  easy: {
+    blunderChance: 0.4,
+    saboteurStray: Number.POSITIVE_INFINITY,
+    skillMean: 55,
+    skillSpread: 18,
+    sandbagsToFail: true,
+    sabotageChance: 0.8,
+  },
+  normal: {
+    blunderChance: 0.15,
+    saboteurStray: 3,
+    skillMean: 70,
+    skillSpread: 12,
+    sandbagsToFail: false,
+    sabotageChance: 0.5,
+  },
+  hard: {
+    blunderChance: 0,
+    saboteurStray: 2,
+    skillMean: 85,
+    skillSpread: 8,
+    sandbagsToFail: false,
+    sabotageChance: 0.35,
+  },
+};
+
+export const isBotDifficulty = (value: unknown): value is BotDifficulty =>
+  typeof value === "string" && (BOT_DIFFICULTIES as readonly string[]).includes(value);
+
+/** How far a total sits outside the clear window [gate, reactorLimit). */
+export const missDistance = (total: number, gate: number, reactorLimit: number) =>
+  total < gate ? gate - total : total >= reactorLimit ? total - reactorLimit + 1 : 0;
+
+/**
+ * A bot's honest percentFinished for a run on the given station.
+ */
+export const rollStationSkill = (view: BotStationView, difficulty: BotDifficulty): number => {
+  const profile = DIFFICULTY_PROFILES[difficulty];
+  const strain = getJobDefinition(view.job).strain;
+  const mean =
+    profile.skillMean - strain.energy * view.reactorEnergy01 - strain.damage * (1 - view.shipHealth01);
+  const percent = mean + profile.skillSpread * nextGaussian(view.rng);
+  return Math.max(0, Math.min(100, Math.round(percent)));
+};
+
+/**
+ * The single most suspicious seat other than the voter and its allies, if it
+ * reaches `threshold`. Ties are too close to call and skip.
+ */
+const mostSuspicious = ({ selfId, suspicion, allies }: BotVoteView, threshold: number): string | null => {
+  const ranked = Object.entries(suspicion)
+    .filter(([id]) => id !== selfId && !allies.includes(id))
+    .sort((a, b) => b[1] - a[1]);
+  const [top, runnerUp] = ranked;
+  if (!top || top[1] < threshold || (runnerUp && runnerUp[1] === top[1])) return null;
+  return top[0];
+};
+
+const pickAny = (hand: Card[], rng: Rng) => hand[Math.floor(rng.next() * hand.length)];
+
+// Every other seat is assumed to play an average card.
+const expectedOthers = ({ playerCount, deckSize }: BotPlanView) => ((playerCount - 1) * (deckSize + 1)) / 2;
+
+/** The card that puts the expected total closest to the middle of the clear window. */
+const crewCard = (view: BotPlanView) => {
+  const goal = (view.gate + view.reactorLimit - 1) / 2 - expectedOthers(view);
+  const miss = (card: Card) => Math.abs(estimateCardValue(card) - goal);
+  return view.hand.reduce((best, card) => (miss(card) < miss(best) ? card : best));
+};
+
+/**
+ * Worth using when it moves the total toward the window, or when it repairs
+ * a damaged hull without moving the total away.
+ */
+export const helpsCrew = ({ total, gate, reactorLimit, deltaTotal, deltaShip, shipHealth01 }: BotItemView) => {
+  const before = missDistance(total, gate, reactorLimit);
+  const after = missDistance(total + deltaTotal, gate, reactorLimit);
+  return after < before || (after === before && deltaShip > 0 && shipHealth01 < 1);
+};
+
+const crewStrategy = (difficulty: BotDifficulty, profile: DifficultyProfile): BotStrategy => ({
+  chooseCard: (view) => (view.rng.next() < profile.blunderChance ? pickAny(view.hand, view.rng) : crewCard(view)),
+  runStation: (view) => rollStationSkill(view, difficulty),
+  runItemCheck: (view) => rollStationSkill(view, difficulty),
+  useItem: (view) => helpsCrew(view),
+  useSabotage: () => false,
+  vote: (view) => (view.rng.next() < profile.blunderChance ? null : mostSuspicious(view, 2)),
+});
+
+/**
+ * Caps an honest run at the top of whichever outcome row hurts the crew most.
+ * Rows are assumed best first, so each row's band ends where the previous begins.
+ */
+const sandbag = (view: BotStationView, honest: number, profile: DifficultyProfile) => {
+  const bands = view.outcomes.map((row, index) => ({
+    row,
+    ceiling: index === 0 ? 100 : view.outcomes[index - 1].minPercent - 1,
+  }));
+  const allowed = bands.filter(({ row }) => profile.sandbagsToFail || row.tier !== "FAIL");
+  if (allowed.length === 0) return honest;
+  const harm = ({ row }: (typeof bands)[number]) =>
+    missDistance(view.total + row.deltaTotal, view.gate, view.reactorLimit);
+  // Ties go to the better-looking row.
+  const target = allowed.reduce((worst, band) => (harm(band) > harm(worst) ? band : worst));
+  return Math.min(honest, target.ceiling);
+};
+
+/**
+ * Pushes toward whichever edge of the window the expected total is nearer,
+ * but only as far as the difficulty's stray allows, so the card still looks
+ * like an honest attempt.
+ */
+const saboteurStrategy = (difficulty: BotDifficulty, profile: DifficultyProfile): BotStrategy => ({
+  chooseCard: (view) => {
+    if (view.rng.next() < profile.blunderChance) return pickAny(view.hand, view.rng);
+    const honest = estimateCardValue(crewCard(view));
+    const expected = expectedOthers(view) + honest;
+    const overshoot = view.reactorLimit - expected <= expected - view.gate;
+    const deniable = view.hand.filter((card) => Math.abs(estimateCardValue(card) - honest) <= profile.saboteurStray);
+    const push = (card: Card) => (overshoot ? 1 : -1) * estimateCardValue(card);
+    return deniable.reduce((best, card) => (push(card) > push(best) ? card : best));
+  },
+  runStation: (view) => sandbag(view, rollStationSkill(view, difficulty), profile),
+  // Item checks are played straight; a botched item would only waste the tool.
+  runItemCheck: (view) => rollStationSkill(view, difficulty),
+  useItem: ({ total, gate, reactorLimit, deltaTotal }) =>
+    missDistance(total + deltaTotal, gate, reactorLimit) > missDistance(total, gate, reactorLimit),
+  // A SURGE is only worth its trace when it pushes the total out of the window.
+  useSabotage: ({ toolId, total, gate, reactorLimit, deltaTotal, rng }) =>
+    toolId === "SURGE"
+      ? missDistance(total + deltaTotal, gate, reactorLimit) > missDistance(total, gate, reactorLimit)
+      : rng.next() < profile.sabotageChance,
+  // Saboteurs pile onto any crew member who already looks guilty.
+  vote: (view) => mostSuspicious(view, 1),
+});
+
+export const createBotStrategy = (role: Role, difficulty: BotDifficulty): BotStrategy => {
+  const profile = DIFFICULTY_PROFILES[difficulty];
+  return role === "Saboteur" ? saboteurStrategy(difficulty, profile) : crewStrategy(difficulty, profile);
+};
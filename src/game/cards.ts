@@ -0,0 +1,144 @@
+import { getCachedBalanceConfig, type BalanceConfig } from "./config";
+import type { Rng } from "./rng";
+import type { Card, Player, SpecialCardRules } from "./types";
+
+// Card faces and how a round's played cards add up.
+//
+// Resolution order, applied at ignition:
+//   1. Wild cards are rolled within the configured range.
+//   2. Null cards cancel the card of the next seat, in seat order. A null that
+//      has already been cancelled does nothing.
+//   3. Double cards add (multiplier - 1) x the next seat's value after nulls.
+//      Doubles contribute nothing on their own, so they never chain.
+//   4. Power, coolant and rolled wild cards count at face value.
+// "Next seat" wraps around the table by seatIndex.
+
+export type ResolvedCards = {
+  /** Played cards with wilds revealed. */
+  cardsPlayed: Record<string, Card | null>;
+  cardValues: Record<string, number>;
+  total: number;
+};
+
+export const createPowerCard = (value: number): Card => ({ id: `power-${value}`, kind: "power", value });
+
+/** One copy of power cards 1..deckSize plus the configured specials. */
+export const createDeckCards = (balance: BalanceConfig = getCachedBalanceConfig()): Card[] => {
+  const { coolant, wild, double } = balance.specialCards;
+  const copies = (count: number, make: (n: number) => Card) => Array.from({ length: count }, (_, i) => make(i + 1));
+  return [
+    ...Array.from({ length: balance.deckSize }, (_, i) => createPowerCard(i + 1)),
+    ...copies(coolant.count, (n) => ({ id: `coolant-${n}`, kind: "coolant", value: coolant.value })),
+    ...copies(wild.count, (n) => ({ id: `wild-${n}`, kind: "wild", value: 0 })),
+    ...copies(double.count, (n) => ({ id: `double-${n}`, kind: "double", value: double.multiplier })),
+    ...copies(balance.specialCards.null.count, (n) => ({ id: `null-${n}`, kind: "null", value: 0 })),
+  ];
+};
+
+/** A deck's contents for the table, e.g. "power 1–9, 1 coolant and 1 wild". */
+export const describeDeck = (deckSize: number, specialCards: SpecialCardRules): string => {
+  const specials = (Object.keys(specialCards) as (keyof SpecialCardRules)[])
+    .filter((kind) => specialCards[kind].count > 0)
+    .map((kind) => `${specialCards[kind].count} ${kind}${specialCards[kind].count === 1 ? "" : "s"}`);
+  const parts = [`power 1–${deckSize}`, ...specials];
+  return parts.length === 1 ? parts[0] : `${parts.slice(0, -1).join(", ")} and ${parts[parts.length - 1]}`;
+};
+
+/** Average power card, used wherever another seat's card is unknown. */
+export const getAverageCard = (balance: BalanceConfig = getCachedBalanceConfig()): number => (balance.deckSize + 1) / 2;
+
+/**
+ * What a card is expected to add to the total before anyone knows the other
+ * cards: doubles and nulls are judged against an average neighbour.
+ */
+export const estimateCardValue = (card: Card, balance: BalanceConfig = getCachedBalanceConfig()): number => {
+  const average = getAverageCard(balance);
+  switch (card.kind) {
+    case "power":
+    case "coolant":
+      return card.value;
+    case "wild":
+      return (balance.specialCards.wild.min + balance.specialCards.wild.max) / 2;
+    case "double":
+      return (card.value - 1) * average;
+    case "null":
+      return -average;
+  }
+};
+
+export const getCardFace = (card: Card): string => {
+  switch (card.kind) {
+    case "power":
+      return String(card.value);
+    case "coolant":
+      return `−${Math.abs(card.value)}`;
+    case "wild":
+      return card.value > 0 ? String(card.value) : "?";
+    case "double":
+      return `×${card.value}`;
+    case "null":
+      return "∅";
+  }
+};
+
+export const describeCard = (card: Card, balance: BalanceConfig = getCachedBalanceConfig()): string => {
+  switch (card.kind) {
+    case "power":
+      return `Power ${card.value}`;
+    case "coolant":
+      return `Coolant: lowers the total by ${Math.abs(card.value)}`;
+    case "wild": {
+      const { min, max } = balance.specialCards.wild;
+      return card.value > 0 ? `Wild: rolled ${card.value}` : `Wild: rolls ${min}–${max} at ignition`;
+    }
+    case "double":
+      return `Double: multiplies the next seat's card by ${card.value}`;
+    case "null":
+      return "Null: cancels the next seat's card";
+  }
+};
+
+const rollWild = (rng: Rng, balance: BalanceConfig) => {
+  const { min, max } = balance.specialCards.wild;
+  return min + Math.floor(rng.next() * (max - min + 1));
+};
+
+/** Resolves a round's played cards in the order described above. */
+export const resolveCards = (
+  players: Player[],
+  cardsPlayed: Record<string, Card | null>,
+  rng: Rng,
+  balance: BalanceConfig = getCachedBalanceConfig(),
+): ResolvedCards => {
+  const seats = [...players].sort((a, b) => a.seatIndex - b.seatIndex).map((player) => player.id);
+  const nextSeat = (id: string) => seats[(seats.indexOf(id) + 1) % seats.length];
+
+  const revealed: Record<string, Card | null> = {};
+  seats.forEach((id) => {
+    const card = cardsPlayed[id] ?? null;
+    revealed[id] = card?.kind === "wild" && card.value === 0 ? { ...card, value: rollWild(rng, balance) } : card;
+  });
+
+  const cancelled = new Set<string>();
+  seats.forEach((id) => {
+    if (revealed[id]?.kind === "null" && !cancelled.has(id)) {
+      cancelled.add(nextSeat(id));
+    }
+  });
+
+  const baseValue = (id: string) => {
+    const card = revealed[id];
+    if (!card || cancelled.has(id)) return 0;
+    return card.kind === "power" || card.kind === "coolant" || card.kind === "wild" ? card.value : 0;
+  };
+
+  const cardValues: Record<string, number> = {};
+  seats.forEach((id) => {
+    const card = revealed[id];
+    cardValues[id] =
+      card?.kind === "double" && !cancelled.has(id) ? (card.value - 1) * baseValue(nextSeat(id)) : baseValue(id);
+  });
+
+  const total = seats.reduce((sum, id) => sum + cardValues[id], 0);
+  return { cardsPlayed: revealed, cardValues, total };
+};
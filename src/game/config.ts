@@ -1,4 +1,15 @@
-import type { ItemId, MinigameTier } from "./types";
+import { formatConfigIssue, validateBalanceConfig, type ConfigIssue } from "./configValidation";
+import type {
+  HandCarryOver,
+  ItemDefinition,
+  ItemId,
+  Job,
+  MinigameTierRule,
+  SabotageRules,
+  SaboteurRule,
+  SpecialCardRules,
+  TribunalRules,
+} from "./types";
 
 export type BalanceConfig = {
   roundsMax: number;
@@ -7,13 +18,24 @@ export type BalanceConfig = {
   allSuccessGain: number;
   deckSize: number;
   handSize: number;
+  handCarryOver: HandCarryOver;
+  /** Special cards shuffled into every deck alongside power cards 1..deckSize. */
+  specialCards: SpecialCardRules;
   gateBasePerPlayer: number;
   gateOffsets: number[];
-  items: {
-    BOOST: { deltaTotal: number; deltaShip: number };
-    VENT: { deltaTotal: number; deltaShip: number };
-    EQUALIZER: { belowGate: number; otherwise: number; deltaShip: number };
-  };
+  reactorLimitPerPlayer: number;
+  clearsToWin: number;
+  overloadsToLose: number;
+  /** Saboteur count by crew size, smallest crew first. */
+  saboteurs: SaboteurRule[];
+  /** The saboteurs' secret tools. */
+  sabotage: SabotageRules;
+  /** Ejection rules for the optional Tribunal vote. */
+  tribunal: TribunalRules;
+  /** Per-job station outcome tables, best row first. */
+  minigames: Record<Job, MinigameTierRule[]>;
+  /** Item catalog; each job starts with the items it owns here. */
+  items: Record<ItemId, ItemDefinition>;
 };
 
 export const defaultBalanceConfig: BalanceConfig = {
@@ -23,104 +45,176 @@ export const defaultBalanceConfig: BalanceConfig = {
   allSuccessGain: 0.05,
   deckSize: 9,
   handSize: 5,
+  handCarryOver: "keep",
+  specialCards: {
+    coolant: { count: 1, value: -2 },
+    wild: { count: 1, min: 1, max: 9 },
+    double: { count: 1, multiplier: 2 },
+    null: { count: 1 },
+  },
   gateBasePerPlayer: 4,
   gateOffsets: [-2, -1, 0, 1, 2],
+  reactorLimitPerPlayer: 6,
+  clearsToWin: 4,
+  overloadsToLose: 2,
+  saboteurs: [
+    { minPlayers: 3, count: 1 },
+    { minPlayers: 6, count: 2 },
+  ],
+  sabotage: {
+    SURGE: { uses: 2, deltaTotal: 2, traceChance: 0.5 },
+    JAM: { uses: 2, traceChance: 1 },
+    SPOOF: { uses: 2, offset: 30, traceChance: 0.25 },
+  },
+  tribunal: { saboteurEjected: "win", bonusClears: 1, bonusShip: 0.2 },
+  minigames: {
+    // A table may add rows past the core three, e.g. a top grade above SUCCESS:
+    //   { name: "PERFECT", tier: "SUCCESS", minPercent: 95, deltaTotal: 4, deltaShip: 0 }
+    PowerEngineer: [
+      { name: "SUCCESS", tier: "SUCCESS", minPercent: 80, deltaTotal: 3, deltaShip: 0 },
+      { name: "PARTIAL", tier: "PARTIAL", minPercent: 40, deltaTotal: 0, deltaShip: 0 },
+      { name: "FAIL", tier: "FAIL", minPercent: 0, deltaTotal: -2, deltaShip: -0.1 },
+    ],
+    CoolantTech: [
+      { name: "SUCCESS", tier: "SUCCESS", minPercent: 80, deltaTotal: -1, deltaShip: 0.1 },
+      { name: "PARTIAL", tier: "PARTIAL", minPercent: 40, deltaTotal: 0, deltaShip: 0 },
+      { name: "FAIL", tier: "FAIL", minPercent: 0, deltaTotal: 2, deltaShip: -0.1 },
+    ],
+    FluxSpecialist: [
+      { name: "SUCCESS", tier: "SUCCESS", minPercent: 80, deltaTotal: 1, deltaShip: 0.05 },
+      { name: "PARTIAL", tier: "PARTIAL", minPercent: 40, deltaTotal: 0, deltaShip: 0 },
+      { name: "FAIL", tier: "FAIL", minPercent: 0, deltaTotal: -1, deltaShip: -0.1 },
+    ],
+    HullTechnician: [
+      { name: "SUCCESS", tier: "SUCCESS", minPercent: 80, deltaTotal: 0, deltaShip: 0.1 },
+      { name: "PARTIAL", tier: "PARTIAL", minPercent: 40, deltaTotal: 0, deltaShip: 0.05 },
+      { name: "FAIL", tier: "FAIL", minPercent: 0, deltaTotal: 0, deltaShip: -0.1 },
+    ],
+  },
   items: {
-    BOOST: { deltaTotal: 3, deltaShip: 0 },
-    VENT: { deltaTotal: -3, deltaShip: 0.05 },
-    EQUALIZER: { belowGate: 2, otherwise: -2, deltaShip: 0 },
+    BOOST: {
+      name: "BOOST",
+      job: "PowerEngineer",
+      timing: "Engage",
+      effect: { kind: "flat", deltaTotal: 3 },
+      deltaShip: 0,
+      tierMultipliers: { SUCCESS: 1, PARTIAL: 1 / 3, FAIL: 0 },
+      shipTierMultipliers: { SUCCESS: 0, PARTIAL: 0, FAIL: 0 },
+      skillCheckMs: 4000,
+      description: "{deltaTotal} to the reactor total this round.",
+      icon: { path: "M8 2 L13 8 L8 14 L3 8 Z", color: "#fcd34d" },
+    },
+    VENT: {
+      name: "VENT",
+      job: "CoolantTech",
+      timing: "Engage",
+      effect: { kind: "flat", deltaTotal: -3 },
+      deltaShip: 0.05,
+      tierMultipliers: { SUCCESS: 1, PARTIAL: 2 / 3, FAIL: 1 / 3 },
+      shipTierMultipliers: { SUCCESS: 1, PARTIAL: 0, FAIL: -0.4 },
+      skillCheckMs: 4000,
+      description: "{deltaTotal} to the reactor total, easing overload risk.",
+      icon: { path: "M3 4 H13 V12 H3 Z", color: "#7dd3fc" },
+    },
+    EQUALIZER: {
+      name: "EQUALIZER",
+      job: "FluxSpecialist",
+      timing: "Engage",
+      effect: { kind: "gate", belowGate: 2, otherwise: -2 },
+      deltaShip: 0,
+      tierMultipliers: { SUCCESS: 1, PARTIAL: 0.5, FAIL: 0 },
+      shipTierMultipliers: { SUCCESS: 0, PARTIAL: 0, FAIL: 0 },
+      skillCheckMs: 4000,
+      description: "If below Gate: {belowGate}. Otherwise: {otherwise} to the reactor total.",
+      icon: { path: "M2 12 C4 4, 9 14, 14 3", color: "#6ee7b7" },
+    },
+    PATCH: {
+      name: "PATCH",
+      job: "HullTechnician",
+      timing: "Engage",
+      effect: { kind: "flat", deltaTotal: 0 },
+      deltaShip: 0.2,
+      tierMultipliers: { SUCCESS: 1, PARTIAL: 1, FAIL: 1 },
+      shipTierMultipliers: { SUCCESS: 1, PARTIAL: 0.5, FAIL: 0 },
+      skillCheckMs: 4000,
+      description: "{deltaShip} hull integrity, less on a shaky skill check.",
+      icon: { path: "M8 3 V13 M3 8 H13", color: "#fdba74" },
+    },
+    REDRAW: {
+      name: "REDRAW",
+      job: "PowerEngineer",
+      timing: "Plan",
+      effect: { kind: "redraw" },
+      deltaShip: 0,
+      tierMultipliers: { SUCCESS: 1, PARTIAL: 1, FAIL: 1 },
+      shipTierMultipliers: { SUCCESS: 0, PARTIAL: 0, FAIL: 0 },
+      skillCheckMs: 0,
+      description: "Discard your hand and draw the same number of cards.",
+      icon: { path: "M3 6 A5 5 0 0 1 13 6 M13 10 A5 5 0 0 1 3 10", color: "#fcd34d" },
+    },
+    GATE_PROBE: {
+      name: "GATE PROBE",
+      job: "CoolantTech",
+      timing: "Plan",
+      effect: { kind: "gateProbe", spread: 1 },
+      deltaShip: 0,
+      tierMultipliers: { SUCCESS: 1, PARTIAL: 1, FAIL: 1 },
+      shipTierMultipliers: { SUCCESS: 0, PARTIAL: 0, FAIL: 0 },
+      skillCheckMs: 0,
+      description: "Reveal next round's Gate to within ±{spread}.",
+      icon: { path: "M2 8 H14 M8 3 V13", color: "#7dd3fc" },
+    },
+    SCAN: {
+      name: "SCAN",
+      job: "FluxSpecialist",
+      timing: "Plan",
+      effect: { kind: "scan" },
+      deltaShip: 0,
+      tierMultipliers: { SUCCESS: 1, PARTIAL: 1, FAIL: 1 },
+      shipTierMultipliers: { SUCCESS: 0, PARTIAL: 0, FAIL: 0 },
+      skillCheckMs: 0,
+      description: "Peek at another player's slotted card.",
+      icon: { path: "M2 8 C5 3, 11 3, 14 8 C11 13, 5 13, 2 8 Z M8 6.5 V9.5", color: "#6ee7b7" },
+    },
   },
 };
 
 let cachedConfig: BalanceConfig = defaultBalanceConfig;
 
-const mergeBalanceConfig = (incoming: Partial<BalanceConfig>): BalanceConfig => {
-  if (!incoming || typeof incoming !== "object") return defaultBalanceConfig;
-  return {
-    ...defaultBalanceConfig,
-    ...incoming,
-    gateOffsets: Array.isArray(incoming.gateOffsets)
-      ? incoming.gateOffsets.filter((n) => typeof n === "number" && Number.isFinite(n))
-      : defaultBalanceConfig.gateOffsets,
-    items: {
-      BOOST: { ...defaultBalanceConfig.items.BOOST, ...(incoming.items?.BOOST ?? {}) },
-      VENT: { ...defaultBalanceConfig.items.VENT, ...(incoming.items?.VENT ?? {}) },
-      EQUALIZER: { ...defaultBalanceConfig.items.EQUALIZER, ...(incoming.items?.EQUALIZER ?? {}) },
-    },
-  };
-};
-
 export const getCachedBalanceConfig = (): BalanceConfig => cachedConfig;
 
-export const loadBalanceConfig = async (): Promise<BalanceConfig> => {
-  try {
-    const response = await fetch("/config/balance.json", { cache: "no-cache" });
-    if (!response.ok) throw new Error("Failed to load balance config");
-    const raw = (await response.json()) as Partial<BalanceConfig>;
-    cachedConfig = mergeBalanceConfig(raw);
-    return cachedConfig;
-  } catch (error) {
-    console.warn("Balance config load failed, using defaults", error);
-    cachedConfig = defaultBalanceConfig;
-    return cachedConfig;
-  }
-};
-
-const ITEM_TIER_MULTIPLIERS: Record<ItemId, Record<MinigameTier, number>> = {
-  BOOST: { SUCCESS: 1, PARTIAL: 1 / 3, FAIL: 0 },
-  VENT: { SUCCESS: 1, PARTIAL: 2 / 3, FAIL: 1 / 3 },
-  EQUALIZER: { SUCCESS: 1, PARTIAL: 0.5, FAIL: 0 },
+export const setCachedBalanceConfig = (config: BalanceConfig): void => {
+  cachedConfig = config;
 };
 
-const ITEM_SHIP_MULTIPLIERS: Record<ItemId, Record<MinigameTier, number>> = {
-  BOOST: { SUCCESS: 0, PARTIAL: 0, FAIL: 0 },
-  VENT: { SUCCESS: 1, PARTIAL: 0, FAIL: -0.4 },
-  EQUALIZER: { SUCCESS: 0, PARTIAL: 0, FAIL: 0 },
+export type BalanceLoadResult = {
+  config: BalanceConfig;
+  issues: ConfigIssue[];
 };
 
-const roundHundred = (value: number) => Math.round(value * 100) / 100;
-
-export const getItemEffect = ({
-  itemId,
-  tier,
-  isBelowGate,
-  balance,
-}: {
-  itemId: ItemId;
-  tier: MinigameTier;
-  isBelowGate: boolean;
-  balance: BalanceConfig;
-}): { deltaTotal: number; deltaShipHealth01: number } => {
-  const multipliers = ITEM_TIER_MULTIPLIERS[itemId];
-  const shipMultipliers = ITEM_SHIP_MULTIPLIERS[itemId];
-  const tierMultiplier = multipliers?.[tier] ?? 0;
-  const shipMultiplier = shipMultipliers?.[tier] ?? 0;
-
-  switch (itemId) {
-    case "BOOST": {
-      const base = balance.items.BOOST.deltaTotal;
-      return {
-        deltaTotal: roundHundred(base * tierMultiplier),
-        deltaShipHealth01: roundHundred(balance.items.BOOST.deltaShip * shipMultiplier),
-      };
-    }
-    case "VENT": {
-      const base = balance.items.VENT.deltaTotal;
-      return {
-        deltaTotal: roundHundred(base * tierMultiplier),
-        deltaShipHealth01: roundHundred(balance.items.VENT.deltaShip * shipMultiplier),
-      };
-    }
-    case "EQUALIZER": {
-      const base = isBelowGate
-        ? balance.items.EQUALIZER.belowGate
-        : balance.items.EQUALIZER.otherwise;
-      return {
-        deltaTotal: roundHundred(base * tierMultiplier),
-        deltaShipHealth01: roundHundred(balance.items.EQUALIZER.deltaShip * shipMultiplier),
-      };
-    }
-    default:
-      return { deltaTotal: 0, deltaShipHealth01: 0 };
+export const loadBalanceConfig = async (): Promise<BalanceLoadResult> => {
+  let result: BalanceLoadResult;
+  try {
+    const response = await fetch("/config/balance.json", { cache: "no-cache" });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const raw: unknown = await response.json();
+    result = validateBalanceConfig(raw, defaultBalanceConfig);
+  } catch (error) {
+    result = {
+      config: defaultBalanceConfig,
+      issues: [
+        {
+          severity: "error",
+          path: "",
+          message: `could not be loaded (${error instanceof Error ? error.message : String(error)}); using defaults`,
+        },
+      ],
+    };
   }
+  result.issues.forEach((issue) => {
+    const log = issue.severity === "error" ? console.error : console.warn;
+    log(formatConfigIssue(issue));
+  });
+  cachedConfig = result.config;
+  return result;
 };
@@ -0,0 +1,799 @@
+import type { BalanceConfig } from "./config";
+import { getJobDefinition } from "./jobs";
+import {
+  CREW_SIZE_MAX,
+  CREW_SIZE_MIN,
+  HAND_CARRY_OVER_RULES,
+  ITEM_TIMINGS,
+  JOBS,
+  MINIGAME_TIERS,
+  PLAN_EFFECT_KINDS,
+  SABOTAGE_TOOL_IDS,
+  SPECIAL_CARD_KINDS,
+  TRIBUNAL_REWARDS,
+  type ItemDefinition,
+  type ItemEffectFormula,
+  type MinigameTier,
+  type MinigameTierRule,
+  type SabotageRules,
+  type SaboteurRule,
+  type SpecialCardRules,
+  type TribunalRules,
+} from "./types";
+
+export type ConfigIssueSeverity = "error" | "warning";
+
+export type ConfigIssue = {
+  severity: ConfigIssueSeverity;
+  /** Dotted path into balance.json, e.g. `items.VENT.deltaShip`. */
+  path: string;
+  message: string;
+};
+
+export type ConfigValidation = {
+  config: BalanceConfig;
+  issues: ConfigIssue[];
+};
+
+type NumberRule = {
+  integer?: boolean;
+  min?: number;
+  max?: number;
+};
+
+type Issues = ConfigIssue[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => (Array.isArray(value) ? "array" : value === null ? "null" : typeof value);
+
+const rangeLabel = ({ integer, min, max }: NumberRule) => {
+  const kind = integer ? "an integer" : "a number";
+  if (min != null && max != null) return `${kind} in ${min}..${max}`;
+  if (min != null) return `${kind} >= ${min}`;
+  if (max != null) return `${kind} <= ${max}`;
+  return kind;
+};
+
+const checkNumber = (value: unknown, rule: NumberRule): boolean =>
+  typeof value === "number" &&
+  Number.isFinite(value) &&
+  (!rule.integer || Number.isInteger(value)) &&
+  (rule.min == null || value >= rule.min) &&
+  (rule.max == null || value <= rule.max);
+
+/**
+ * Reads one numeric field, reporting a path-qualified error and falling back
+ * to the default when it is missing or out of range.
+ */
+const readNumber = (
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  fallback: number,
+  rule: NumberRule,
+  issues: Issues,
+): number => {
+  if (!(key in source)) {
+    issues.push({ severity: "warning", path, message: `missing, using default ${fallback}` });
+    return fallback;
+  }
+  const value = source[key];
+  if (!checkNumber(value, rule)) {
+    issues.push({
+      severity: "error",
+      path,
+      message: `expected ${rangeLabel(rule)}, got ${JSON.stringify(value) ?? describe(value)}; using default ${fallback}`,
+    });
+    return fallback;
+  }
+  return value as number;
+};
+
+const warnUnknownKeys = (
+  source: Record<string, unknown>,
+  known: readonly string[],
+  prefix: string,
+  issues: Issues,
+) => {
+  Object.keys(source)
+    .filter((key) => !known.includes(key))
+    .forEach((key) => {
+      issues.push({ severity: "warning", path: `${prefix}${key}`, message: "unknown key is ignored" });
+    });
+};
+
+const readBlock = <T extends Record<string, number>>(
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  fallback: T,
+  rules: Record<keyof T, NumberRule>,
+  issues: Issues,
+): T => {
+  const raw = source[key];
+  if (raw === undefined) {
+    issues.push({ severity: "warning", path, message: "missing, using defaults" });
+    return fallback;
+  }
+  if (!isRecord(raw)) {
+    issues.push({ severity: "error", path, message: `expected an object, got ${describe(raw)}; using defaults` });
+    return fallback;
+  }
+  warnUnknownKeys(raw, Object.keys(fallback), `${path}.`, issues);
+  const result = { ...fallback };
+  (Object.keys(fallback) as (keyof T & string)[]).forEach((field) => {
+    result[field] = readNumber(raw, field, `${path}.${field}`, fallback[field], rules[field], issues) as T[keyof T & string];
+  });
+  return result;
+};
+
+const LOSS_RULE: NumberRule = { min: 0, max: 1 };
+const SHIP_DELTA_RULE: NumberRule = { min: -1, max: 1 };
+
+const TOP_LEVEL_KEYS = [
+  "roundsMax",
+  "overloadLoss",
+  "failLoss",
+  "allSuccessGain",
+  "deckSize",
+  "handSize",
+  "handCarryOver",
+  "specialCards",
+  "gateBasePerPlayer",
+  "gateOffsets",
+  "reactorLimitPerPlayer",
+  "clearsToWin",
+  "overloadsToLose",
+  "saboteurs",
+  "sabotage",
+  "tribunal",
+  "minigames",
+  "items",
+] as const;
+
+const readGateOffsets = (source: Record<string, unknown>, fallback: number[], issues: Issues): number[] => {
+  const raw = source.gateOffsets;
+  if (raw === undefined) {
+    issues.push({ severity: "warning", path: "gateOffsets", message: "missing, using defaults" });
+    return fallback;
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    issues.push({
+      severity: "error",
+      path: "gateOffsets",
+      message: `expected a non-empty array of integers, got ${describe(raw)}; using defaults`,
+    });
+    return fallback;
+  }
+  const offsets: number[] = [];
+  raw.forEach((value, index) => {
+    if (checkNumber(value, { integer: true })) {
+      offsets.push(value as number);
+    } else {
+      issues.push({
+        severity: "error",
+        path: `gateOffsets[${index}]`,
+        message: `expected an integer, got ${JSON.stringify(value) ?? describe(value)}; entry dropped`,
+      });
+    }
+  });
+  return offsets.length > 0 ? offsets : fallback;
+};
+
+const CARD_COUNT_RULE: NumberRule = { integer: true, min: 0 };
+
+const readSpecialCards = (
+  source: Record<string, unknown>,
+  fallback: SpecialCardRules,
+  issues: Issues,
+): SpecialCardRules => {
+  const raw = source.specialCards;
+  if (raw === undefined) {
+    issues.push({ severity: "warning", path: "specialCards", message: "missing, using defaults" });
+    return fallback;
+  }
+  if (!isRecord(raw)) {
+    issues.push({ severity: "error", path: "specialCards", message: `expected an object, got ${describe(raw)}; using defaults` });
+    return fallback;
+  }
+  warnUnknownKeys(raw, SPECIAL_CARD_KINDS, "specialCards.", issues);
+
+  let wild = readBlock(
+    raw,
+    "wild",
+    "specialCards.wild",
+    fallback.wild,
+    { count: CARD_COUNT_RULE, min: { integer: true, min: 1 }, max: { integer: true, min: 1 } },
+    issues,
+  );
+  if (wild.min > wild.max) {
+    issues.push({
+      severity: "error",
+      path: "specialCards.wild",
+      message: `min ${wild.min} exceeds max ${wild.max}; using defaults`,
+    });
+    wild = fallback.wild;
+  }
+  return {
+    coolant: readBlock(
+      raw,
+      "coolant",
+      "specialCards.coolant",
+      fallback.coolant,
+      { count: CARD_COUNT_RULE, value: { integer: true, max: -1 } },
+      issues,
+    ),
+    wild,
+    double: readBlock(
+      raw,
+      "double",
+      "specialCards.double",
+      fallback.double,
+      { count: CARD_COUNT_RULE, multiplier: { integer: true, min: 2 } },
+      issues,
+    ),
+    null: readBlock(raw, "null", "specialCards.null", fallback.null, { count: CARD_COUNT_RULE }, issues),
+  };
+};
+
+const SABOTEUR_RULE_KEYS = ["minPlayers", "count"] as const;
+
+const readSaboteurRule = (raw: unknown, path: string, issues: Issues): SaboteurRule | null => {
+  if (!isRecord(raw)) {
+    issues.push({ severity: "error", path, message: `expected an object, got ${describe(raw)}; row dropped` });
+    return null;
+  }
+  warnUnknownKeys(raw, SABOTEUR_RULE_KEYS, `${path}.`, issues);
+  const minPlayersRule: NumberRule = { integer: true, min: 1, max: CREW_SIZE_MAX };
+  if (!checkNumber(raw.minPlayers, minPlayersRule)) {
+    issues.push({
+      severity: "error",
+      path: `${path}.minPlayers`,
+      message: `expected ${rangeLabel(minPlayersRule)}, got ${JSON.stringify(raw.minPlayers) ?? describe(raw.minPlayers)}; row dropped`,
+    });
+    return null;
+  }
+  const minPlayers = raw.minPlayers as number;
+  // At least one seat has to stay crew.
+  const countRule: NumberRule = { integer: true, min: 1, max: minPlayers - 1 };
+  if (!checkNumber(raw.count, countRule)) {
+    issues.push({
+      severity: "error",
+      path: `${path}.count`,
+      message: `expected ${rangeLabel(countRule)}, got ${JSON.stringify(raw.count) ?? describe(raw.count)}; row dropped`,
+    });
+    return null;
+  }
+  return { minPlayers, count: raw.count as number };
+};
+
+const readSaboteurTable = (source: Record<string, unknown>, fallback: SaboteurRule[], issues: Issues): SaboteurRule[] => {
+  const raw = source.saboteurs;
+  if (raw === undefined) {
+    issues.push({ severity: "warning", path: "saboteurs", message: "missing, using defaults" });
+    return fallback;
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    issues.push({
+      severity: "error",
+      path: "saboteurs",
+      message: `expected a non-empty array of rows, got ${describe(raw)}; using defaults`,
+    });
+    return fallback;
+  }
+  const rules = raw
+    .map((row, index) => readSaboteurRule(row, `saboteurs[${index}]`, issues))
+    .filter((rule): rule is SaboteurRule => rule !== null)
+    .sort((a, b) => a.minPlayers - b.minPlayers);
+  if (!rules.some((rule) => rule.minPlayers <= CREW_SIZE_MIN)) {
+    issues.push({
+      severity: "error",
+      path: "saboteurs",
+      message: `no row covers a crew of ${CREW_SIZE_MIN}; using defaults`,
+    });
+    return fallback;
+  }
+  return rules;
+};
+
+const USES_RULE: NumberRule = { integer: true, min: 0 };
+
+const readSabotageRules = (source: Record<string, unknown>, fallback: SabotageRules, issues: Issues): SabotageRules => {
+  const raw = source.sabotage;
+  if (raw === undefined) {
+    issues.push({ severity: "warning", path: "sabotage", message: "missing, using defaults" });
+    return fallback;
+  }
+  if (!isRecord(raw)) {
+    issues.push({ severity: "error", path: "sabotage", message: `expected an object, got ${describe(raw)}; using defaults` });
+    return fallback;
+  }
+  warnUnknownKeys(raw, SABOTAGE_TOOL_IDS, "sabotage.", issues);
+  return {
+    SURGE: readBlock(
+      raw,
+      "SURGE",
+      "sabotage.SURGE",
+      fallback.SURGE,
+      { uses: USES_RULE, deltaTotal: { integer: true, min: 1 }, traceChance: LOSS_RULE },
+      issues,
+    ),
+    JAM: readBlock(raw, "JAM", "sabotage.JAM", fallback.JAM, { uses: USES_RULE, traceChance: LOSS_RULE }, issues),
+    SPOOF: readBlock(
+      raw,
+      "SPOOF",
+      "sabotage.SPOOF",
+      fallback.SPOOF,
+      { uses: USES_RULE, offset: { integer: true, min: 1, max: 100 }, traceChance: LOSS_RULE },
+      issues,
+    ),
+  };
+};
+
+const readTribunalRules = (source: Record<string, unknown>, fallback: TribunalRules, issues: Issues): TribunalRules => {
+  const raw = source.tribunal;
+  if (raw === undefined) {
+    issues.push({ severity: "warning", path: "tribunal", message: "missing, using defaults" });
+    return fallback;
+  }
+  if (!isRecord(raw)) {
+    issues.push({ severity: "error", path: "tribunal", message: `expected an object, got ${describe(raw)}; using defaults` });
+    return fallback;
+  }
+  warnUnknownKeys(raw, Object.keys(fallback), "tribunal.", issues);
+  return {
+    saboteurEjected: readChoice(
+      raw,
+      "saboteurEjected",
+      "tribunal.saboteurEjected",
+      fallback.saboteurEjected,
+      TRIBUNAL_REWARDS,
+      issues,
+    ),
+    bonusClears: readNumber(
+      raw,
+      "bonusClears",
+      "tribunal.bonusClears",
+      fallback.bonusClears,
+      { integer: true, min: 0 },
+      issues,
+    ),
+    bonusShip: readNumber(raw, "bonusShip", "tribunal.bonusShip", fallback.bonusShip, LOSS_RULE, issues),
+  };
+};
+
+const TIER_RULE_KEYS = ["name", "tier", "minPercent", "deltaTotal", "deltaShip"] as const;
+
+const TIER_RULE_NUMBERS: Record<"minPercent" | "deltaTotal" | "deltaShip", NumberRule> = {
+  minPercent: { min: 0, max: 100 },
+  deltaTotal: {},
+  deltaShip: SHIP_DELTA_RULE,
+};
+
+/**
+ * Reads one outcome row. Rows have no defaults to fall back on, so any bad
+ * field drops the whole row.
+ */
+const readTierRule = (raw: unknown, path: string, issues: Issues): MinigameTierRule | null => {
+  if (!isRecord(raw)) {
+    issues.push({ severity: "error", path, message: `expected an object, got ${describe(raw)}; row dropped` });
+    return null;
+  }
+  const missing = TIER_RULE_KEYS.filter((key) => !(key in raw));
+  if (missing.length > 0) {
+    issues.push({ severity: "error", path, message: `missing ${missing.join(", ")}; row dropped` });
+    return null;
+  }
+  warnUnknownKeys(raw, TIER_RULE_KEYS, `${path}.`, issues);
+
+  const problems: ConfigIssue[] = [];
+  if (typeof raw.name !== "string" || raw.name.length === 0) {
+    problems.push({
+      severity: "error",
+      path: `${path}.name`,
+      message: `expected a non-empty string, got ${describe(raw.name)}; row dropped`,
+    });
+  }
+  if (!MINIGAME_TIERS.includes(raw.tier as MinigameTier)) {
+    problems.push({
+      severity: "error",
+      path: `${path}.tier`,
+      message: `expected one of ${MINIGAME_TIERS.join(", ")}, got ${JSON.stringify(raw.tier) ?? describe(raw.tier)}; row dropped`,
+    });
+  }
+  (Object.keys(TIER_RULE_NUMBERS) as (keyof typeof TIER_RULE_NUMBERS)[]).forEach((key) => {
+    const rule = TIER_RULE_NUMBERS[key];
+    if (!checkNumber(raw[key], rule)) {
+      problems.push({
+        severity: "error",
+        path: `${path}.${key}`,
+        message: `expected ${rangeLabel(rule)}, got ${JSON.stringify(raw[key]) ?? describe(raw[key])}; row dropped`,
+      });
+    }
+  });
+  if (problems.length > 0) {
+    issues.push(...problems);
+    return null;
+  }
+  return raw as MinigameTierRule;
+};
+
+const readMinigameTables = (
+  source: Record<string, unknown>,
+  fallback: BalanceConfig["minigames"],
+  issues: Issues,
+): BalanceConfig["minigames"] => {
+  const raw = source.minigames;
+  if (raw === undefined) {
+    issues.push({ severity: "warning", path: "minigames", message: "missing, using defaults" });
+    return fallback;
+  }
+  if (!isRecord(raw)) {
+    issues.push({ severity: "error", path: "minigames", message: `expected an object, got ${describe(raw)}; using defaults` });
+    return fallback;
+  }
+  warnUnknownKeys(raw, JOBS, "minigames.", issues);
+
+  const tables = { ...fallback };
+  JOBS.forEach((job) => {
+    const path = `minigames.${job}`;
+    const table = raw[job];
+    if (table === undefined) {
+      issues.push({ severity: "warning", path, message: "missing, using defaults" });
+      return;
+    }
+    if (!Array.isArray(table) || table.length === 0) {
+      issues.push({ severity: "error", path, message: `expected a non-empty array of tiers, got ${describe(table)}; using defaults` });
+      return;
+    }
+    const rules = table
+      .map((row, index) => readTierRule(row, `${path}[${index}]`, issues))
+      .filter((rule): rule is MinigameTierRule => rule !== null)
+      .sort((a, b) => b.minPercent - a.minPercent);
+    if (!rules.some((rule) => rule.minPercent === 0)) {
+      issues.push({ severity: "error", path, message: "no tier starts at minPercent 0; using defaults" });
+      return;
+    }
+    tables[job] = rules;
+  });
+  return tables;
+};
+
+const ITEM_KEYS = [
+  "name",
+  "job",
+  "timing",
+  "effect",
+  "deltaShip",
+  "tierMultipliers",
+  "shipTierMultipliers",
+  "skillCheckMs",
+  "description",
+  "icon",
+] as const;
+
+// A new catalog entry must at least say who owns it, when it is used, what it
+// does and how it is shown; everything else has a neutral default.
+const REQUIRED_NEW_ITEM_KEYS = ["job", "timing", "effect", "description", "icon"] as const;
+
+const TIER_RULES: Record<MinigameTier, NumberRule> = { SUCCESS: {}, PARTIAL: {}, FAIL: {} };
+
+const NEW_ITEM_DEFAULTS: Omit<ItemDefinition, "name" | "job" | "timing" | "effect" | "description" | "icon"> = {
+  deltaShip: 0,
+  tierMultipliers: { SUCCESS: 1, PARTIAL: 1, FAIL: 1 },
+  shipTierMultipliers: { SUCCESS: 1, PARTIAL: 1, FAIL: 1 },
+  skillCheckMs: 0,
+};
+
+/** Item entries are partial overrides: absent keys keep the fallback silently. */
+const readOverride = (
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  fallback: number,
+  rule: NumberRule,
+  issues: Issues,
+): number => (key in source ? readNumber(source, key, path, fallback, rule, issues) : fallback);
+
+const readChoice = <T extends string>(
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  fallback: T,
+  choices: readonly T[],
+  issues: Issues,
+): T => {
+  if (!(key in source)) return fallback;
+  const value = source[key];
+  if (typeof value !== "string" || !choices.includes(value as T)) {
+    issues.push({
+      severity: "error",
+      path,
+      message: `expected one of ${choices.join(", ")}, got ${JSON.stringify(value) ?? describe(value)}; using ${fallback}`,
+    });
+    return fallback;
+  }
+  return value as T;
+};
+
+const readText = (
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  fallback: string,
+  issues: Issues,
+): string => {
+  if (!(key in source)) return fallback;
+  const value = source[key];
+  if (typeof value !== "string" || value.length === 0) {
+    issues.push({ severity: "error", path, message: `expected a non-empty string, got ${describe(value)}; using default` });
+    return fallback;
+  }
+  return value;
+};
+
+const EFFECT_KINDS = ["flat", "gate", ...PLAN_EFFECT_KINDS] as const;
+
+const readEffect = (raw: unknown, path: string, fallback: ItemEffectFormula, issues: Issues): ItemEffectFormula => {
+  if (!isRecord(raw)) {
+    issues.push({ severity: "error", path, message: `expected an object, got ${describe(raw)}; using default` });
+    return fallback;
+  }
+  const kind = readChoice(raw, "kind", `${path}.kind`, fallback.kind, EFFECT_KINDS, issues);
+  // Switching formula kinds leaves nothing to inherit, so its amounts must be given.
+  const read = kind === fallback.kind ? readOverride : readNumber;
+  if (kind === "flat") {
+    warnUnknownKeys(raw, ["kind", "deltaTotal"], `${path}.`, issues);
+    const base = fallback.kind === "flat" ? fallback.deltaTotal : 0;
+    return { kind, deltaTotal: read(raw, "deltaTotal", `${path}.deltaTotal`, base, {}, issues) };
+  }
+  if (kind === "gate") {
+    warnUnknownKeys(raw, ["kind", "belowGate", "otherwise"], `${path}.`, issues);
+    const base = fallback.kind === "gate" ? fallback : { belowGate: 0, otherwise: 0 };
+    return {
+      kind,
+      belowGate: read(raw, "belowGate", `${path}.belowGate`, base.belowGate, {}, issues),
+      otherwise: read(raw, "otherwise", `${path}.otherwise`, base.otherwise, {}, issues),
+    };
+  }
+  if (kind === "gateProbe") {
+    warnUnknownKeys(raw, ["kind", "spread"], `${path}.`, issues);
+    const base = fallback.kind === "gateProbe" ? fallback.spread : 1;
+    return { kind, spread: read(raw, "spread", `${path}.spread`, base, { integer: true, min: 0 }, issues) };
+  }
+  warnUnknownKeys(raw, ["kind"], `${path}.`, issues);
+  return { kind };
+};
+
+const readIcon = (raw: unknown, path: string, fallback: ItemDefinition["icon"], issues: Issues): ItemDefinition["icon"] => {
+  if (!isRecord(raw)) {
+    issues.push({ severity: "error", path, message: `expected an object, got ${describe(raw)}; using default` });
+    return fallback;
+  }
+  warnUnknownKeys(raw, ["path", "color"], `${path}.`, issues);
+  return {
+    path: readText(raw, "path", `${path}.path`, fallback.path, issues),
+    color: readText(raw, "color", `${path}.color`, fallback.color, issues),
+  };
+};
+
+const readItem = (
+  id: string,
+  raw: unknown,
+  fallback: ItemDefinition | undefined,
+  issues: Issues,
+): ItemDefinition | null => {
+  const path = `items.${id}`;
+  if (!isRecord(raw)) {
+    issues.push({
+      severity: "error",
+      path,
+      message: `expected an object, got ${describe(raw)}; ${fallback ? "using defaults" : "item dropped"}`,
+    });
+    return fallback ?? null;
+  }
+  if (!fallback) {
+    const missing = REQUIRED_NEW_ITEM_KEYS.filter((key) => !(key in raw));
+    if (missing.length > 0) {
+      issues.push({ severity: "error", path, message: `new item is missing ${missing.join(", ")}; item dropped` });
+      return null;
+    }
+  }
+  warnUnknownKeys(raw, ITEM_KEYS, `${path}.`, issues);
+
+  const base: ItemDefinition = fallback ?? {
+    ...NEW_ITEM_DEFAULTS,
+    name: id,
+    job: JOBS[0],
+    timing: "Engage",
+    effect: { kind: "flat", deltaTotal: 0 },
+    description: "",
+    icon: { path: "", color: "" },
+  };
+  const readTiers = (key: "tierMultipliers" | "shipTierMultipliers") =>
+    key in raw ? readBlock(raw, key, `${path}.${key}`, base[key], TIER_RULES, issues) : base[key];
+
+  const item: ItemDefinition = {
+    name: readText(raw, "name", `${path}.name`, base.name, issues),
+    job: readChoice(raw, "job", `${path}.job`, base.job, JOBS, issues),
+    timing: readChoice(raw, "timing", `${path}.timing`, base.timing, ITEM_TIMINGS, issues),
+    effect: "effect" in raw ? readEffect(raw.effect, `${path}.effect`, base.effect, issues) : base.effect,
+    deltaShip: readOverride(raw, "deltaShip", `${path}.deltaShip`, base.deltaShip, SHIP_DELTA_RULE, issues),
+    tierMultipliers: readTiers("tierMultipliers"),
+    shipTierMultipliers: readTiers("shipTierMultipliers"),
+    skillCheckMs: readOverride(
+      raw,
+      "skillCheckMs",
+      `${path}.skillCheckMs`,
+      base.skillCheckMs,
+      { integer: true, min: 0 },
+      issues,
+    ),
+    description: readText(raw, "description", `${path}.description`, base.description, issues),
+    icon: "icon" in raw ? readIcon(raw.icon, `${path}.icon`, base.icon, issues) : base.icon,
+  };
+  // Reveal effects only make sense before lock-in; reactor effects only after.
+  const isPlanEffect = (PLAN_EFFECT_KINDS as readonly string[]).includes(item.effect.kind);
+  if (isPlanEffect !== (item.timing === "Plan")) {
+    issues.push({
+      severity: "error",
+      path: `${path}.effect.kind`,
+      message: `"${item.effect.kind}" does not fit timing ${item.timing}; ${fallback ? "using defaults" : "item dropped"}`,
+    });
+    return fallback ?? null;
+  }
+  return item;
+};
+
+/**
+ * Reads the item catalog. Entries for default items override them field by
+ * field; any other key adds a new item.
+ */
+const readItems = (
+  source: Record<string, unknown>,
+  fallback: BalanceConfig["items"],
+  issues: Issues,
+): BalanceConfig["items"] => {
+  const raw = source.items;
+  if (raw === undefined) {
+    issues.push({ severity: "warning", path: "items", message: "missing, using defaults" });
+    return fallback;
+  }
+  if (!isRecord(raw)) {
+    issues.push({ severity: "error", path: "items", message: `expected an object, got ${describe(raw)}; using defaults` });
+    return fallback;
+  }
+  const items: BalanceConfig["items"] = { ...fallback };
+  Object.keys(raw).forEach((id) => {
+    const known = Object.prototype.hasOwnProperty.call(fallback, id) ? fallback[id] : undefined;
+    const item = readItem(id, raw[id], known, issues);
+    if (item) items[id] = item;
+  });
+  JOBS.forEach((job) => {
+    getJobDefinition(job).startingItems.forEach((id) => {
+      const item = Object.prototype.hasOwnProperty.call(items, id) ? items[id] : undefined;
+      if (item?.job === job) return;
+      issues.push({
+        severity: "warning",
+        path: `items.${id}`,
+        message: item ? `moved to ${item.job}; ${job} starts without it` : `not in the catalog; ${job} starts without it`,
+      });
+    });
+  });
+  return items;
+};
+
+/**
+ * Checks a parsed balance.json against the schema. Every problem is reported
+ * with its path; the returned config substitutes defaults for bad values.
+ */
+export const validateBalanceConfig = (raw: unknown, defaults: BalanceConfig): ConfigValidation => {
+  const issues: Issues = [];
+  if (!isRecord(raw)) {
+    issues.push({ severity: "error", path: "", message: `expected a JSON object, got ${describe(raw)}; using defaults` });
+    return { config: defaults, issues };
+  }
+
+  warnUnknownKeys(raw, TOP_LEVEL_KEYS, "", issues);
+
+  const roundsMax = readNumber(raw, "roundsMax", "roundsMax", defaults.roundsMax, { integer: true, min: 1 }, issues);
+  const overloadLoss = readNumber(raw, "overloadLoss", "overloadLoss", defaults.overloadLoss, LOSS_RULE, issues);
+  const failLoss = readNumber(raw, "failLoss", "failLoss", defaults.failLoss, LOSS_RULE, issues);
+  const allSuccessGain = readNumber(raw, "allSuccessGain", "allSuccessGain", defaults.allSuccessGain, LOSS_RULE, issues);
+  const deckSize = readNumber(raw, "deckSize", "deckSize", defaults.deckSize, { integer: true, min: 1 }, issues);
+  let handSize = readNumber(raw, "handSize", "handSize", defaults.handSize, { integer: true, min: 1 }, issues);
+  if (handSize > deckSize) {
+    issues.push({
+      severity: "error",
+      path: "handSize",
+      message: `${handSize} exceeds deckSize ${deckSize}; clamped to ${deckSize}`,
+    });
+    handSize = deckSize;
+  }
+  const gateBasePerPlayer = readNumber(
+    raw,
+    "gateBasePerPlayer",
+    "gateBasePerPlayer",
+    defaults.gateBasePerPlayer,
+    { min: 0 },
+    issues,
+  );
+  if (!("handCarryOver" in raw)) {
+    issues.push({ severity: "warning", path: "handCarryOver", message: `missing, using default ${defaults.handCarryOver}` });
+  }
+  const handCarryOver = readChoice(
+    raw,
+    "handCarryOver",
+    "handCarryOver",
+    defaults.handCarryOver,
+    HAND_CARRY_OVER_RULES,
+    issues,
+  );
+  const specialCards = readSpecialCards(raw, defaults.specialCards, issues);
+  const gateOffsets = readGateOffsets(raw, defaults.gateOffsets, issues);
+  const reactorLimitPerPlayer = readNumber(
+    raw,
+    "reactorLimitPerPlayer",
+    "reactorLimitPerPlayer",
+    defaults.reactorLimitPerPlayer,
+    { min: 1 },
+    issues,
+  );
+  if (reactorLimitPerPlayer <= gateBasePerPlayer) {
+    issues.push({
+      severity: "warning",
+      path: "reactorLimitPerPlayer",
+      message: `${reactorLimitPerPlayer} leaves no room above the gate; most rounds will overload`,
+    });
+  }
+  const clearsToWin = readNumber(raw, "clearsToWin", "clearsToWin", defaults.clearsToWin, { integer: true, min: 1 }, issues);
+  if (clearsToWin > roundsMax) {
+    issues.push({
+      severity: "warning",
+      path: "clearsToWin",
+      message: `${clearsToWin} exceeds roundsMax ${roundsMax}; the crew can never win`,
+    });
+  }
+  const overloadsToLose = readNumber(
+    raw,
+    "overloadsToLose",
+    "overloadsToLose",
+    defaults.overloadsToLose,
+    { integer: true, min: 1 },
+    issues,
+  );
+
+  const saboteurs = readSaboteurTable(raw, defaults.saboteurs, issues);
+  const sabotage = readSabotageRules(raw, defaults.sabotage, issues);
+  const tribunal = readTribunalRules(raw, defaults.tribunal, issues);
+  const minigames = readMinigameTables(raw, defaults.minigames, issues);
+  const items = readItems(raw, defaults.items, issues);
+
+  const config: BalanceConfig = {
+    roundsMax,
+    overloadLoss,
+    failLoss,
+    allSuccessGain,
+    deckSize,
+    handSize,
+    handCarryOver,
+    specialCards,
+    gateBasePerPlayer,
+    gateOffsets,
+    reactorLimitPerPlayer,
+    clearsToWin,
+    overloadsToLose,
+    saboteurs,
+    sabotage,
+    tribunal,
+    minigames,
+    items,
+  };
+
+  return { config, issues };
+};
+
+export const formatConfigIssue = ({ severity, path, message }: ConfigIssue): string =>
+  `[balance.json] ${severity}: ${path || "(root)"} ${message}`;
@@ -0,0 +1,62 @@
+import { shuffleArray, type Rng } from "./rng";
+import type { Card, HandCarryOver } from "./types";
+
+// Every seat owns one copy of each card in `createDeckCards`. A card is always
+// in exactly one place: the draw pile, the discard pile, the hand or the slot.
+
+export type PlayerDeck = {
+  /** Next card drawn is the first entry. */
+  draw: Card[];
+  discard: Card[];
+};
+
+/** A shuffled deck, minus any cards the player is already holding. */
+export const createDeck = (cards: Card[], rng: Rng, holding: Card[] = []): PlayerDeck => ({
+  draw: shuffleArray(cards.filter((card) => !holding.some((held) => held.id === card.id)), rng),
+  discard: [],
+});
+
+/** Draws up to `count` cards, reshuffling the discard pile whenever the draw pile runs out. */
+export const drawCards = (deck: PlayerDeck, count: number, rng: Rng): { deck: PlayerDeck; cards: Card[] } => {
+  let { draw, discard } = deck;
+  const cards: Card[] = [];
+  while (cards.length < count) {
+    if (draw.length === 0) {
+      if (discard.length === 0) break;
+      draw = shuffleArray(discard, rng);
+      discard = [];
+    }
+    cards.push(draw[0]);
+    draw = draw.slice(1);
+  }
+  return { deck: { draw, discard }, cards };
+};
+
+export const discardCards = (deck: PlayerDeck, cards: Card[]): PlayerDeck => ({
+  ...deck,
+  discard: [...deck.discard, ...cards],
+});
+
+/**
+ * Applies the carry-over rule to last round's unplayed cards and tops the
+ * hand back up to `handSize`.
+ */
+export const refillHand = (
+  deck: PlayerDeck,
+  hand: Card[],
+  handSize: number,
+  rule: HandCarryOver,
+  rng: Rng,
+): { deck: PlayerDeck; hand: Card[] } => {
+  let kept = hand;
+  let next = deck;
+  if (rule === "discard") {
+    next = discardCards(deck, hand);
+    kept = [];
+  } else if (rule === "return") {
+    next = { ...deck, draw: shuffleArray([...deck.draw, ...hand], rng) };
+    kept = [];
+  }
+  const drawn = drawCards(next, Math.max(0, handSize - kept.length), rng);
+  return { deck: drawn.deck, hand: [...kept, ...drawn.cards] };
+};
@@ -0,0 +1,958 @@
+import { applyItem } from "./actions/items";
+import {
+  createBotStrategy,
+  isBotDifficulty,
+  type BotDifficulty,
+  type BotStationView,
+  type BotStrategy,
+} from "./bots";
+import { createDeckCards, createPowerCard, resolveCards } from "./cards";
+import { getCachedBalanceConfig, type BalanceConfig } from "./config";
+import { createDeck, discardCards, drawCards, refillHand, type PlayerDeck } from "./deck";
+import { getItemDefinition, getItemEffect } from "./itemCatalog";
+import { isJob } from "./jobs";
+import { getMatchResult, type MatchResult } from "./matchResult";
+import { getReportedOutcome, resolveMinigame } from "./minigame";
+import { nextSeed, resumeRng, seedToState, type Rng } from "./rng";
+import { isItemJammed, SABOTAGE_TOOLS } from "./sabotage";
+import {
+  createDefaultPlayers,
+  createInitialRound,
+  createJobItems,
+  dealRoles,
+  getReactorLimit,
+  LOCAL_PLAYER_ID,
+  resetCrew,
+  resizeCrew,
+  seatCrew,
+  settleNames,
+  type LobbySeat,
+} from "./setup";
+import { transition, type GameEvent, type TransitionRejection } from "./state/machine";
+import type {
+  Card,
+  ItemId,
+  ItemReveal,
+  Job,
+  MinigameResult,
+  MinigameTelemetry,
+  Phase,
+  Player,
+  RoundOutcome,
+  RoundState,
+  SabotageToolId,
+  TribunalRecord,
+} from "./types";
+
+// Headless game engine. Every rule lives here as a pure `reduce(state, action)`
+// so matches can be run, tested and simulated without React or a browser.
+// The UI only renders a `GameState` and dispatches `GameAction`s.
+
+export const SHIP_HP_MAX = 10;
+
+export type ActiveMinigame = {
+  playerId: string;
+  /** Seeds the minigame's own Rng so its spawns replay with the match. */
+  seed: number;
+  /** The item this run is a skill check for; null for the station run. */
+  itemId: ItemId | null;
+};
+
+export type GameState = {
+  phase: Phase;
+  players: Player[];
+  reactorLimit: number;
+  roundIndex: number;
+  round: RoundState;
+  shipHP: number;
+  overloads: number;
+  clears: number;
+  hand: Card[];
+  slotCard: Card | null;
+  /** Hands of every non-local player, dealt alongside the local hand. */
+  botHands: Record<string, Card[]>;
+  /** Every seat's draw and discard piles, kept across rounds. */
+  decks: Record<string, PlayerDeck>;
+  /** Intel from Plan items, by the player who used them. */
+  reveals: Record<string, ItemReveal[]>;
+  botDifficulty: BotDifficulty;
+  /** Deal stations at random on Ready instead of keeping the Lobby picks. */
+  dealJobs: boolean;
+  /** Hold a Tribunal vote after every Maintenance that does not end the match. */
+  tribunal: boolean;
+  /** Seats voted off the ship; they sit out every later round. */
+  ejected: string[];
+  tribunals: TribunalRecord[];
+  activeMinigame: ActiveMinigame | null;
+  /** Item skill checks waiting for the current run to finish. */
+  itemChecks: ActiveMinigame[];
+  /** Match seed chosen in the Lobby; reproduces every draw below. */
+  seed: number;
+  /** mulberry32 position; every random draw advances it. */
+  rngState: number;
+  /** Set when the last phase-changing action was refused by the machine. */
+  rejectedTransition: TransitionRejection | null;
+};
+
+export type GameAction =
+  | { type: "lobby.rename"; name: string }
+  | { type: "lobby.selectJob"; job: Job }
+  | { type: "lobby.setSeed"; seed: number }
+  | { type: "lobby.setDifficulty"; difficulty: BotDifficulty }
+  | { type: "lobby.setCrewSize"; size: number }
+  | { type: "lobby.renameBot"; playerId: string; name: string }
+  | { type: "lobby.setDealJobs"; enabled: boolean }
+  | { type: "lobby.setTribunal"; enabled: boolean }
+  | { type: "lobby.ready" }
+  | { type: "roleReveal.continue" }
+  | { type: "plan.chooseCard"; cardId: string }
+  /** `targetId` names the seat a SCAN looks at. */
+  | { type: "plan.useItem"; playerId: string; itemId: ItemId; targetId?: string }
+  /** `botCards` lets headless callers choose the bots' cards (by id) instead of drawing them. */
+  | { type: "plan.lock"; botCards?: Record<string, string> }
+  | { type: "ignition.proceed" }
+  | { type: "engage.useItem"; playerId: string; itemId: ItemId }
+  /** Saboteur tools; `targetId` names the seat a JAM or SPOOF is aimed at. */
+  | { type: "sabotage.use"; playerId: string; toolId: SabotageToolId; targetId?: string }
+  | { type: "engage.completeMinigame"; percentFinished: number; telemetry?: MinigameTelemetry }
+  | { type: "maintenance.resolve" }
+  /** The local seat's vote: a seat to eject, or null to skip. */
+  | { type: "tribunal.vote"; targetId: string | null }
+  | { type: "gameOver.restart" };
+
+/** Picks the strategy a bot seat plays by. */
+export type BotStrategyFactory = (player: Player, difficulty: BotDifficulty) => BotStrategy;
+
+export type ReduceOptions = {
+  /**
+   * Stands in for the in-game bots when they run their stations and items in
+   * Engage. Headless callers such as the balance simulator plug their own seat
+   * policies in here; the live game never sets it.
+   */
+  botStrategy?: BotStrategyFactory;
+};
+
+const defaultBotStrategy: BotStrategyFactory = (player, difficulty) => createBotStrategy(player.role, difficulty);
+
+export const clampShipHP = (value: number) => Math.max(0, Math.min(SHIP_HP_MAX, value));
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+const toShipHPDelta = (delta01: number) => delta01 * SHIP_HP_MAX;
+
+export const getLocalPlayer = (state: Pick<GameState, "players">): Player | undefined =>
+  state.players.find((player) => player.id === LOCAL_PLAYER_ID) ?? state.players[0];
+
+/** Seats still aboard, in seat order. */
+export const getActivePlayers = (state: Pick<GameState, "players" | "ejected">): Player[] =>
+  state.players.filter((player) => !state.ejected.includes(player.id));
+
+const countSaboteursAboard = (state: Pick<GameState, "players" | "ejected">) =>
+  getActivePlayers(state).filter((player) => player.role === "Saboteur").length;
+
+export const getShipHealth01 = (state: Pick<GameState, "shipHP">): number =>
+  clamp01(state.shipHP / SHIP_HP_MAX);
+
+// The reactor limit and the gate both scale with the number of seats.
+const seatPlayers = (players: Player[]): Pick<GameState, "players" | "reactorLimit" | "round"> => ({
+  players,
+  reactorLimit: getReactorLimit(players.length),
+  round: createInitialRound(1, players),
+});
+
+const createMatchState = (
+  players: Player[],
+  seed: number,
+  botDifficulty: BotDifficulty = "normal",
+  dealJobs = false,
+  tribunal = false,
+): GameState => ({
+  ...seatPlayers(players),
+  phase: "Lobby",
+  roundIndex: 1,
+  shipHP: SHIP_HP_MAX,
+  overloads: 0,
+  clears: 0,
+  hand: [],
+  slotCard: null,
+  botHands: {},
+  decks: {},
+  reveals: {},
+  botDifficulty,
+  dealJobs,
+  tribunal,
+  ejected: [],
+  tribunals: [],
+  activeMinigame: null,
+  itemChecks: [],
+  seed,
+  rngState: seedToState(seed),
+  rejectedTransition: null,
+});
+
+/** What a Lobby carries into its match besides the seed. */
+export type LobbySetup = {
+  seats: LobbySeat[];
+  botDifficulty: BotDifficulty;
+  dealJobs: boolean;
+  tribunal: boolean;
+};
+
+export const getLobbySetup = (state: GameState): LobbySetup => ({
+  seats: state.players.map(({ name, job }) => ({ name, job })),
+  botDifficulty: state.botDifficulty,
+  dealJobs: state.dealJobs,
+  tribunal: state.tribunal,
+});
+
+/** A fresh Lobby: the default crew, or the seats and options of `setup`. */
+export const createGameState = (seed: number, setup?: LobbySetup): GameState =>
+  setup
+    ? createMatchState(seatCrew(setup.seats), seed >>> 0, setup.botDifficulty, setup.dealJobs, setup.tribunal)
+    : createMatchState(createDefaultPlayers(), seed >>> 0);
+
+type PhaseChange = { ok: boolean; state: GameState };
+
+/**
+ * Routes a phase change through the state machine. On rejection the phase is
+ * left untouched and the diagnostic is kept on the state.
+ */
+const advance = (state: GameState, event: GameEvent): PhaseChange => {
+  const result = transition(state.phase, event);
+  if (!result.ok) {
+    return { ok: false, state: { ...state, rejectedTransition: result } };
+  }
+  return { ok: true, state: { ...state, phase: result.to, rejectedTransition: null } };
+};
+
+const updatePlayer = (players: Player[], playerId: string, update: (player: Player) => Player) =>
+  players.map((player) => (player.id === playerId ? update(player) : player));
+
+/** Tops up every hand from its owner's deck, creating decks on the first deal. */
+const dealHand = (state: GameState, rng: Rng): GameState => {
+  const balance = getCachedBalanceConfig();
+  const decks: Record<string, PlayerDeck> = {};
+  const botHands: Record<string, Card[]> = {};
+  let hand = state.hand;
+  getActivePlayers(state).forEach((player) => {
+    const isLocal = player.id === LOCAL_PLAYER_ID;
+    const held = (isLocal ? state.hand : state.botHands[player.id]) ?? [];
+    const deck = state.decks[player.id] ?? createDeck(createDeckCards(balance), rng, held);
+    const dealt = refillHand(deck, held, balance.handSize, balance.handCarryOver, rng);
+    decks[player.id] = dealt.deck;
+    if (isLocal) {
+      hand = dealt.hand;
+    } else {
+      botHands[player.id] = dealt.hand;
+    }
+  });
+  return {
+    ...state,
+    hand,
+    botHands,
+    decks,
+    slotCard: null,
+    round: {
+      ...state.round,
+      cardsPlayed: { ...state.round.cardsPlayed, [LOCAL_PLAYER_ID]: null },
+    },
+  };
+};
+
+const randomCard = (rng: Rng) => createPowerCard(1 + Math.floor(rng.next() * getCachedBalanceConfig().deckSize));
+
+const appendResult = (state: GameState, result: MinigameResult): GameState => ({
+  ...state,
+  shipHP: clampShipHP(state.shipHP + result.deltaShipHP),
+  round: {
+    ...state.round,
+    totalAfterItems: state.round.totalAfterItems + result.deltaTotal,
+    minigameResults: [...state.round.minigameResults, result],
+  },
+});
+
+const chooseCard = (state: GameState, cardId: string): GameState => {
+  const localPlayer = getLocalPlayer(state);
+  if (state.phase !== "Plan" || !localPlayer || state.ejected.includes(localPlayer.id)) return state;
+  const index = state.hand.findIndex((card) => card.id === cardId);
+  if (index === -1) return state;
+
+  const card = state.hand[index];
+  const hand = [...state.hand];
+  hand.splice(index, 1);
+  if (state.slotCard != null) {
+    hand.push(state.slotCard);
+  }
+  return {
+    ...state,
+    hand,
+    slotCard: card,
+    round: {
+      ...state.round,
+      cardsPlayed: { ...state.round.cardsPlayed, [localPlayer.id]: card },
+    },
+  };
+};
+
+/** Has a bot commit its card (a chosen one if given) and sends it to the discard pile. */
+const slotBotCard = (state: GameState, player: Player, rng: Rng, cardId?: string): GameState => {
+  const hand = state.botHands[player.id] ?? [];
+  const card =
+    hand.find((held) => held.id === cardId) ??
+    (hand.length > 0
+      ? createBotStrategy(player.role, state.botDifficulty).chooseCard({
+          hand,
+          gate: state.round.gate,
+          reactorLimit: state.reactorLimit,
+          playerCount: state.players.length,
+          deckSize: getCachedBalanceConfig().deckSize,
+          rng,
+        })
+      : randomCard(rng));
+  const slotted = { ...state, round: { ...state.round, cardsPlayed: { ...state.round.cardsPlayed, [player.id]: card } } };
+  const played = hand.findIndex((held) => held.id === card.id);
+  if (played === -1) return slotted;
+  const deck = state.decks[player.id];
+  return {
+    ...slotted,
+    botHands: { ...state.botHands, [player.id]: [...hand.slice(0, played), ...hand.slice(played + 1)] },
+    decks: deck ? { ...state.decks, [player.id]: discardCards(deck, [card]) } : state.decks,
+  };
+};
+
+/**
+ * Spends a sabotage tool without checking the phase, so bots can act from
+ * inside other steps. Returns the state unchanged if the use is not allowed.
+ */
+const spendSabotage = (
+  state: GameState,
+  playerId: string,
+  toolId: SabotageToolId,
+  targetId: string | undefined,
+  rng: Rng,
+): GameState => {
+  const player = state.players.find((p) => p.id === playerId);
+  const tool = player?.sabotage.find((t) => t.id === toolId);
+  if (!player || player.role !== "Saboteur" || !tool || tool.usesLeft <= 0) return state;
+  if (state.ejected.includes(playerId)) return state;
+  if (state.round.sabotage.some((use) => use.playerId === playerId && use.toolId === toolId)) return state;
+
+  const { target: aim } = SABOTAGE_TOOLS[toolId];
+  const target = aim === "none" ? null : getActivePlayers(state).find((p) => p.id === targetId) ?? null;
+  if (aim !== "none" && (!target || (aim === "other" && target.id === playerId))) return state;
+  // A JAM takes the target's Engage item that is still ready.
+  const jammed =
+    toolId === "JAM"
+      ? target?.items.find((item) => item.timing === "Engage" && !item.used && !isItemJammed(state.round, target.id, item.id))
+      : undefined;
+  if (toolId === "JAM" && !jammed) return state;
+
+  const traced = rng.next() < getCachedBalanceConfig().sabotage[toolId].traceChance;
+  return {
+    ...state,
+    players: updatePlayer(state.players, playerId, (p) => ({
+      ...p,
+      sabotage: p.sabotage.map((t) => (t.id === toolId ? { ...t, usesLeft: t.usesLeft - 1 } : t)),
+    })),
+    round: {
+      ...state.round,
+      sabotage: [
+        ...state.round.sabotage,
+        { toolId, playerId, targetId: target?.id ?? null, itemId: jammed?.id ?? null, traced },
+      ],
+    },
+  };
+};
+
+const useSabotage = (
+  state: GameState,
+  playerId: string,
+  toolId: SabotageToolId,
+  targetId: string | undefined,
+  rng: Rng,
+): GameState => {
+  if (!SABOTAGE_TOOLS[toolId] || state.phase !== SABOTAGE_TOOLS[toolId].timing) return state;
+  return spendSabotage(state, playerId, toolId, targetId, rng);
+};
+
+/**
+ * SURGE and SPOOF land once every item has resolved, as Engage hands over to
+ * Maintenance. JAM has already done its work by then.
+ */
+const resolveSabotage = (state: GameState): GameState => {
+  const { SURGE, SPOOF } = getCachedBalanceConfig().sabotage;
+  return state.round.sabotage.reduce((acc, use) => {
+    if (use.toolId === "SURGE") {
+      return { ...acc, round: { ...acc.round, totalAfterItems: acc.round.totalAfterItems + SURGE.deltaTotal } };
+    }
+    if (use.toolId === "SPOOF") {
+      // Saboteurs cover their own runs and smear everyone else's.
+      const offset = use.targetId === use.playerId ? SPOOF.offset : -SPOOF.offset;
+      const minigameResults = acc.round.minigameResults.map((result) =>
+        result.playerId === use.targetId && result.itemId === null
+          ? { ...result, reportedPercent: Math.max(0, Math.min(100, result.percentFinished + offset)) }
+          : result,
+      );
+      return { ...acc, round: { ...acc.round, minigameResults } };
+    }
+    return acc;
+  }, state);
+};
+
+const finishEngage = (state: GameState, activeMinigames: number): GameState => {
+  const change = advance(state, { type: "ENGAGE_NEXT", activeMinigames });
+  return change.ok ? resolveSabotage(change.state) : change.state;
+};
+
+/** Saboteur bots may JAM a random seat as Plan locks in. */
+const runBotJams = (state: GameState, rng: Rng): GameState =>
+  getActivePlayers(state)
+    .filter((player) => player.id !== LOCAL_PLAYER_ID && player.role === "Saboteur")
+    .reduce((acc, player) => {
+      const targets = getActivePlayers(acc).filter(
+        (p) => p.id !== player.id && p.items.some((item) => item.timing === "Engage" && !item.used),
+      );
+      if (targets.length === 0) return acc;
+      const strategy = createBotStrategy(player.role, acc.botDifficulty);
+      const { round, reactorLimit } = acc;
+      const view = { total: round.totalAfterItems, gate: round.gate, reactorLimit, deltaTotal: 0, rng };
+      if (!strategy.useSabotage({ ...view, toolId: "JAM" })) return acc;
+      const target = targets[Math.floor(rng.next() * targets.length)];
+      return spendSabotage(acc, player.id, "JAM", target.id, rng);
+    }, state);
+
+/** After its station run, a saboteur bot may SURGE the total or SPOOF its own report. */
+const runBotCover = (state: GameState, player: Player, strategy: BotStrategy, rng: Rng): GameState => {
+  const { round, reactorLimit } = state;
+  const view = { total: round.totalAfterItems, gate: round.gate, reactorLimit, rng };
+  let next = state;
+  const surge = getCachedBalanceConfig().sabotage.SURGE.deltaTotal;
+  if (strategy.useSabotage({ ...view, toolId: "SURGE", deltaTotal: surge })) {
+    next = spendSabotage(next, player.id, "SURGE", undefined, rng);
+  }
+  const station = next.round.minigameResults.find((r) => r.playerId === player.id && r.itemId === null);
+  if (station && station.tier !== "SUCCESS" && strategy.useSabotage({ ...view, toolId: "SPOOF", deltaTotal: 0 })) {
+    next = spendSabotage(next, player.id, "SPOOF", player.id, rng);
+  }
+  return next;
+};
+
+const lockPlan = (state: GameState, rng: Rng, botCards: Record<string, string> = {}): GameState => {
+  const localPlayer = getLocalPlayer(state);
+  const change = advance(state, {
+    type: "PLAN_LOCK_IN",
+    localCard: localPlayer ? state.round.cardsPlayed[localPlayer.id] ?? null : null,
+    localEjected: localPlayer ? state.ejected.includes(localPlayer.id) : false,
+  });
+  if (!change.ok) return change.state;
+
+  let next = change.state;
+  // The local card is already out of the hand; it leaves the slot for the discard pile.
+  const localDeck = localPlayer && next.decks[localPlayer.id];
+  if (localPlayer && localDeck && next.slotCard != null) {
+    next = { ...next, decks: { ...next.decks, [localPlayer.id]: discardCards(localDeck, [next.slotCard]) } };
+  }
+  // Bots that were scanned during Plan have already slotted theirs.
+  const seated = getActivePlayers(next);
+  next = seated.reduce(
+    (acc, player) => (acc.round.cardsPlayed[player.id] != null ? acc : slotBotCard(acc, player, rng, botCards[player.id])),
+    next,
+  );
+  next = runBotJams(next, rng);
+  const { cardValues, total, ...resolved } = resolveCards(seated, next.round.cardsPlayed, rng);
+  return {
+    ...next,
+    round: {
+      ...next.round,
+      cardsPlayed: resolved.cardsPlayed,
+      cardValues,
+      totalBeforeItems: total,
+      totalAfterItems: total,
+      reactorEnergy01: clamp01(total / next.reactorLimit),
+    },
+  };
+};
+
+const resolveItem = (
+  state: GameState,
+  player: Player,
+  itemId: ItemId,
+  percentFinished: number,
+  telemetry?: MinigameTelemetry,
+): GameState => {
+  const { round } = state;
+  const item = player.items.find((it) => it.id === itemId);
+  // Skill checks are graded on the owning job's outcome table.
+  const { tier, grade } = resolveMinigame(item?.job ?? player.job, percentFinished);
+  const effect = applyItem({
+    round: { totalAfterItems: round.totalAfterItems, gate: round.gate },
+    itemId,
+    tier,
+  });
+  return appendResult(state, {
+    playerId: player.id,
+    job: player.job,
+    itemId,
+    tier,
+    grade,
+    percentFinished,
+    deltaTotal: effect.deltaTotal,
+    deltaShipHP: toShipHPDelta(effect.deltaShip),
+    ...(telemetry && { telemetry }),
+  });
+};
+
+const resolveStation = (
+  state: GameState,
+  player: Player,
+  percentFinished: number,
+  telemetry?: MinigameTelemetry,
+): GameState => {
+  const { deltaShip, ...outcome } = resolveMinigame(player.job, percentFinished);
+  return appendResult(state, {
+    playerId: player.id,
+    job: player.job,
+    itemId: null,
+    ...outcome,
+    deltaShipHP: toShipHPDelta(deltaShip),
+    ...(telemetry && { telemetry }),
+  });
+};
+
+const spendItem = (state: GameState, playerId: string, itemId: ItemId): GameState => ({
+  ...state,
+  players: updatePlayer(state.players, playerId, (p) => ({
+    ...p,
+    items: p.items.map((it) => (it.id === itemId ? { ...it, used: true } : it)),
+  })),
+});
+
+const addReveal = (state: GameState, playerId: string, reveal: ItemReveal): GameState => ({
+  ...state,
+  reveals: { ...state.reveals, [playerId]: [...(state.reveals[playerId] ?? []), reveal] },
+});
+
+/** Discards the hand (the slotted card stays put) and draws as many fresh cards. */
+const redrawHand = (state: GameState, playerId: string, rng: Rng): GameState => {
+  const isLocal = playerId === LOCAL_PLAYER_ID;
+  const hand = (isLocal ? state.hand : state.botHands[playerId]) ?? [];
+  const deck = state.decks[playerId];
+  if (!deck) return state;
+  const drawn = drawCards(discardCards(deck, hand), hand.length, rng);
+  return {
+    ...state,
+    decks: { ...state.decks, [playerId]: drawn.deck },
+    ...(isLocal ? { hand: drawn.cards } : { botHands: { ...state.botHands, [playerId]: drawn.cards } }),
+  };
+};
+
+/**
+ * Plan items reveal information before lock-in. Each resolves on the spot;
+ * anything it uncovers is stored privately for the player who used it.
+ */
+const usePlanItem = (
+  state: GameState,
+  playerId: string,
+  itemId: ItemId,
+  targetId: string | undefined,
+  rng: Rng,
+): GameState => {
+  if (state.phase !== "Plan" || state.ejected.includes(playerId)) return state;
+  const player = state.players.find((p) => p.id === playerId);
+  const item = player?.items.find((it) => it.id === itemId);
+  const definition = getItemDefinition(getCachedBalanceConfig(), itemId);
+  if (!player || !item || item.used || item.timing !== "Plan" || !definition) return state;
+  const { roundIndex } = state;
+
+  switch (definition.effect.kind) {
+    case "scan": {
+      const target = getActivePlayers(state).find((p) => p.id === targetId && p.id !== playerId);
+      if (!target) return state;
+      // A scanned bot commits its card now so there is something to see.
+      const scanned =
+        state.round.cardsPlayed[target.id] == null && target.id !== LOCAL_PLAYER_ID
+          ? slotBotCard(state, target, rng)
+          : state;
+      const card = scanned.round.cardsPlayed[target.id] ?? null;
+      return addReveal(spendItem(scanned, playerId, itemId), playerId, {
+        kind: "scan",
+        itemId,
+        roundIndex,
+        targetId: target.id,
+        card,
+      });
+    }
+    case "redraw": {
+      const redrawn = redrawHand(state, playerId, rng);
+      const cards = (playerId === LOCAL_PLAYER_ID ? redrawn.hand : redrawn.botHands[playerId] ?? []).length;
+      return addReveal(spendItem(redrawn, playerId, itemId), playerId, { kind: "redraw", itemId, roundIndex, cards });
+    }
+    case "gateProbe": {
+      const { spread } = definition.effect;
+      if (roundIndex >= getCachedBalanceConfig().roundsMax) return state;
+      const { gate } = createInitialRound(roundIndex + 1, getActivePlayers(state));
+      // The true gate sits somewhere inside the revealed window.
+      const center = gate + Math.floor(rng.next() * (2 * spread + 1)) - spread;
+      return addReveal(spendItem(state, playerId, itemId), playerId, {
+        kind: "gateProbe",
+        itemId,
+        roundIndex,
+        forRound: roundIndex + 1,
+        min: center - spread,
+        max: center + spread,
+      });
+    }
+    default:
+      return state;
+  }
+};
+
+/**
+ * Items with a skill check are spent immediately but only take effect once
+ * their check has been run; the rest resolve at full strength on the spot.
+ */
+const playItem = (state: GameState, playerId: string, itemId: ItemId, rng: Rng): GameState => {
+  if (state.phase !== "Engage" || state.ejected.includes(playerId)) return state;
+  const player = state.players.find((p) => p.id === playerId);
+  const item = player?.items.find((it) => it.id === itemId);
+  if (!player || !item || item.used || item.timing !== "Engage") return state;
+  if (isItemJammed(state.round, playerId, itemId)) return state;
+
+  const spent = spendItem(state, playerId, itemId);
+  const definition = getItemDefinition(getCachedBalanceConfig(), itemId);
+  if (!definition || definition.skillCheckMs <= 0) {
+    return resolveItem(spent, player, itemId, 100);
+  }
+
+  const check: ActiveMinigame = { playerId, seed: nextSeed(rng), itemId };
+  return spent.activeMinigame
+    ? { ...spent, itemChecks: [...spent.itemChecks, check] }
+    : { ...spent, activeMinigame: check };
+};
+
+const completeMinigame = (state: GameState, percentFinished: number, telemetry?: MinigameTelemetry): GameState => {
+  const running = state.activeMinigame;
+  if (state.phase !== "Engage" || !running) {
+    return finishEngage(state, running ? 1 : 0);
+  }
+  const player = state.players.find((p) => p.id === running.playerId);
+  const [nextCheck = null, ...itemChecks] = state.itemChecks;
+  if (!player) return { ...state, activeMinigame: nextCheck, itemChecks };
+
+  const resolved = running.itemId
+    ? resolveItem(state, player, running.itemId, percentFinished, telemetry)
+    : resolveStation(state, player, percentFinished, telemetry);
+  const next: GameState = { ...resolved, activeMinigame: nextCheck, itemChecks };
+  if (nextCheck) return next;
+  return finishEngage(next, 0);
+};
+
+/**
+ * Bots run their stations off-screen as Engage begins: each may spend its
+ * Engage items (rolling any skill check) and then reports a station result.
+ */
+const runBotStations = (state: GameState, rng: Rng, botStrategy: BotStrategyFactory): GameState => {
+  const balance = getCachedBalanceConfig();
+  let next = state;
+  const stationView = (job: Job): BotStationView => ({
+    job,
+    reactorEnergy01: next.round.reactorEnergy01,
+    shipHealth01: getShipHealth01(next),
+    total: next.round.totalAfterItems,
+    gate: next.round.gate,
+    reactorLimit: next.reactorLimit,
+    outcomes: balance.minigames[job] ?? [],
+    rng,
+  });
+
+  getActivePlayers(state)
+    .filter((player) => player.id !== LOCAL_PLAYER_ID)
+    .forEach((player) => {
+      const strategy = botStrategy(player, state.botDifficulty);
+      player.items
+        .filter((item) => !item.used && item.timing === "Engage" && !isItemJammed(next.round, player.id, item.id))
+        .forEach((item) => {
+          const { deltaTotal, deltaShipHealth01 } = getItemEffect({
+            itemId: item.id,
+            tier: "SUCCESS",
+            isBelowGate: next.round.totalAfterItems < next.round.gate,
+            balance,
+          });
+          const view = { total: next.round.totalAfterItems, gate: next.round.gate, reactorLimit: next.reactorLimit };
+          const shipHealth01 = getShipHealth01(next);
+          if (!strategy.useItem({ ...view, deltaTotal, deltaShip: deltaShipHealth01, shipHealth01 })) return;
+          const definition = getItemDefinition(balance, item.id);
+          const percent =
+            definition && definition.skillCheckMs > 0 ? strategy.runItemCheck(stationView(item.job)) : 100;
+          next = resolveItem(spendItem(next, player.id, item.id), player, item.id, percent);
+        });
+      next = resolveStation(next, player, strategy.runStation(stationView(player.job)));
+      if (player.role === "Saboteur") {
+        next = runBotCover(next, player, strategy, rng);
+      }
+    });
+  return next;
+};
+
+export const getRoundOutcome = (total: number, gate: number, reactorLimit: number): RoundOutcome => {
+  if (total >= reactorLimit) return "Overload";
+  if (total >= gate) return "Clear";
+  return "Fail";
+};
+
+const maintenanceResolveEvent = (state: GameState): GameEvent => ({
+  type: "MAINTENANCE_RESOLVE",
+  result: getMatchResult(state),
+  tribunal: state.tribunal,
+});
+
+/**
+ * Ends the match the moment ship HP reaches 0 during Engage or Maintenance,
+ * abandoning any station run or skill check still open.
+ */
+const breachHull = (state: GameState): GameState => {
+  if (state.shipHP > 0 || (state.phase !== "Engage" && state.phase !== "Maintenance")) return state;
+  const change = advance(state, { type: "HULL_BREACHED" });
+  return change.ok ? { ...change.state, activeMinigame: null, itemChecks: [] } : change.state;
+};
+
+/** Deals the next round to every seat still aboard, with items recharged. */
+const startNextRound = (state: GameState, rng: Rng): GameState => {
+  const roundIndex = state.roundIndex + 1;
+  return dealHand(
+    {
+      ...state,
+      roundIndex,
+      round: createInitialRound(roundIndex, getActivePlayers(state)),
+      players: state.players.map((player) => ({
+        ...player,
+        // Plan and Engage items both recharge every round.
+        items: player.items.map((item) => ({ ...item, used: false })),
+      })),
+    },
+    rng,
+  );
+};
+
+/** Scores the round: its outcome, and the hull, overload and clear counts after it. */
+const settleRound = (state: GameState, balance: BalanceConfig): GameState => {
+  const { round } = state;
+  const outcome = getRoundOutcome(round.totalAfterItems, round.gate, state.reactorLimit);
+
+  let shipHP = state.shipHP;
+  let overloads = state.overloads;
+  let clears = state.clears;
+
+  if (outcome === "Overload") {
+    shipHP = clampShipHP(shipHP - balance.overloadLoss * SHIP_HP_MAX);
+    overloads += 1;
+  } else if (outcome === "Fail") {
+    shipHP = clampShipHP(shipHP - balance.failLoss * SHIP_HP_MAX);
+  } else {
+    clears += 1;
+    if (round.minigameResults.every((r) => r.tier === "SUCCESS")) {
+      shipHP = clampShipHP(shipHP + balance.allSuccessGain * SHIP_HP_MAX);
+    }
+  }
+
+  return { ...state, shipHP, overloads, clears, round: { ...round, outcome } };
+};
+
+/** How the match stands once this Maintenance resolves; null when it goes on. */
+export const getMaintenanceResult = (
+  state: GameState,
+  balance: BalanceConfig = getCachedBalanceConfig(),
+): MatchResult | null => getMatchResult(settleRound(state, balance), balance);
+
+const resolveMaintenance = (state: GameState, rng: Rng): GameState => {
+  if (state.phase !== "Maintenance") {
+    return advance(state, maintenanceResolveEvent(state)).state;
+  }
+  const resolved = settleRound(state, getCachedBalanceConfig());
+  const change = advance(resolved, maintenanceResolveEvent(resolved));
+  if (!change.ok || change.state.phase !== "Plan") return change.state;
+  return startNextRound(change.state, rng);
+};
+
+/**
+ * How guilty each seat still aboard looks from what the round made public:
+ * weak station reports (as shown, so a SPOOF fools the table) and the card
+ * that pushed hardest toward a missed window.
+ */
+const getSuspicion = (state: GameState): Record<string, number> => {
+  const { round } = state;
+  const seated = getActivePlayers(state);
+  const suspicion: Record<string, number> = Object.fromEntries(seated.map((player) => [player.id, 0]));
+  round.minigameResults
+    .filter((result) => result.itemId === null && result.playerId in suspicion)
+    .forEach((result) => {
+      const { tier } = getReportedOutcome(result);
+      suspicion[result.playerId] += tier === "FAIL" ? 2 : tier === "PARTIAL" ? 1 : 0;
+    });
+  if (round.outcome === "Overload" || round.outcome === "Fail") {
+    const push = (id: string) => (round.outcome === "Overload" ? 1 : -1) * (round.cardValues[id] ?? 0);
+    const culprit = seated.reduce<Player | null>((worst, p) => (!worst || push(p.id) > push(worst.id) ? p : worst), null);
+    if (culprit) suspicion[culprit.id] += 1;
+  }
+  return suspicion;
+};
+
+/**
+ * Every seat still aboard votes; bots vote on the round's suspicion. A seat is
+ * ejected only with more votes than skips and no tie at the top.
+ */
+const resolveTribunal = (state: GameState, localVote: string | null, rng: Rng): GameState => {
+  if (state.phase !== "Tribunal") {
+    return advance(state, { type: "TRIBUNAL_RESOLVE", result: null }).state;
+  }
+  const balance = getCachedBalanceConfig();
+  const seated = getActivePlayers(state);
+  const suspicion = getSuspicion(state);
+  const saboteurs = seated.filter((player) => player.role === "Saboteur").map((player) => player.id);
+  const votes: Record<string, string | null> = {};
+  seated.forEach((player) => {
+    if (player.id === LOCAL_PLAYER_ID) {
+      votes[player.id] = seated.some((p) => p.id === localVote && p.id !== player.id) ? localVote : null;
+      return;
+    }
+    const allies = player.role === "Saboteur" ? saboteurs.filter((id) => id !== player.id) : [];
+    votes[player.id] = createBotStrategy(player.role, state.botDifficulty).vote({
+      selfId: player.id,
+      suspicion,
+      allies,
+      rng,
+    });
+  });
+
+  const tally: Record<string, number> = {};
+  Object.values(votes).forEach((target) => {
+    if (target) tally[target] = (tally[target] ?? 0) + 1;
+  });
+  const skips = Object.values(votes).filter((target) => target === null).length;
+  const [top, runnerUp] = Object.entries(tally).sort((a, b) => b[1] - a[1]);
+  const ejectedId = top && top[1] > skips && (!runnerUp || runnerUp[1] < top[1]) ? top[0] : null;
+
+  let next: GameState = {
+    ...state,
+    tribunals: [...state.tribunals, { roundIndex: state.roundIndex, votes, ejectedId }],
+  };
+  if (ejectedId) {
+    const ejected = [...state.ejected, ejectedId];
+    // Fewer seats means fewer cards, so the reactor limit shrinks with the crew.
+    next = { ...next, ejected, reactorLimit: getReactorLimit(seated.length - 1) };
+    if (saboteurs.includes(ejectedId) && (balance.tribunal.saboteurEjected === "bonus" || countSaboteursAboard(next) > 0)) {
+      next = {
+        ...next,
+        clears: next.clears + balance.tribunal.bonusClears,
+        shipHP: clampShipHP(next.shipHP + balance.tribunal.bonusShip * SHIP_HP_MAX),
+      };
+    }
+  }
+
+  const change = advance(next, { type: "TRIBUNAL_RESOLVE", result: getMatchResult(next) });
+  if (!change.ok || change.state.phase !== "Plan") return change.state;
+  return startNextRound(change.state, rng);
+};
+
+const applyAction = (state: GameState, action: GameAction, rng: Rng, options: ReduceOptions): GameState => {
+  switch (action.type) {
+    case "lobby.rename": {
+      const localPlayer = getLocalPlayer(state);
+      if (state.phase !== "Lobby" || !localPlayer) return state;
+      const name = action.name.trim() || "You";
+      return { ...state, players: updatePlayer(state.players, localPlayer.id, (p) => ({ ...p, name })) };
+    }
+    case "lobby.selectJob": {
+      const localPlayer = getLocalPlayer(state);
+      if (state.phase !== "Lobby" || !localPlayer || !isJob(action.job)) return state;
+      const { job } = action;
+      return {
+        ...state,
+        players: updatePlayer(state.players, localPlayer.id, (p) => ({ ...p, job, items: createJobItems(job) })),
+      };
+    }
+    case "lobby.setSeed": {
+      if (state.phase !== "Lobby" || !Number.isFinite(action.seed)) return state;
+      const seed = Math.floor(action.seed) >>> 0;
+      return { ...state, seed, rngState: seedToState(seed) };
+    }
+    case "lobby.setDifficulty":
+      if (state.phase !== "Lobby" || !isBotDifficulty(action.difficulty)) return state;
+      return { ...state, botDifficulty: action.difficulty };
+    case "lobby.setCrewSize":
+      if (state.phase !== "Lobby" || !Number.isFinite(action.size)) return state;
+      return { ...state, ...seatPlayers(resizeCrew(state.players, action.size)) };
+    case "lobby.renameBot": {
+      const bot = state.players.find((p) => p.id === action.playerId);
+      if (state.phase !== "Lobby" || !bot || bot.id === LOCAL_PLAYER_ID) return state;
+      // Kept as typed so a space can go mid-callsign; Ready settles it.
+      return { ...state, players: updatePlayer(state.players, bot.id, (p) => ({ ...p, name: action.name })) };
+    }
+    case "lobby.setDealJobs":
+      if (state.phase !== "Lobby") return state;
+      return { ...state, dealJobs: action.enabled };
+    case "lobby.setTribunal":
+      if (state.phase !== "Lobby") return state;
+      return { ...state, tribunal: action.enabled };
+    case "lobby.ready": {
+      const change = advance(state, { type: "START" });
+      if (!change.ok) return change.state;
+      return { ...change.state, players: dealRoles(settleNames(change.state.players), rng, state.dealJobs) };
+    }
+    case "roleReveal.continue": {
+      const change = advance(state, { type: "ROLES_REVEALED" });
+      return change.ok ? dealHand(change.state, rng) : change.state;
+    }
+    case "plan.chooseCard":
+      return chooseCard(state, action.cardId);
+    case "plan.useItem":
+      return usePlanItem(state, action.playerId, action.itemId, action.targetId, rng);
+    case "plan.lock":
+      return lockPlan(state, rng, action.botCards);
+    case "ignition.proceed": {
+      const localPlayer = getActivePlayers(state).find((player) => player.id === LOCAL_PLAYER_ID);
+      const change = advance(state, { type: "IGNITION_DONE" });
+      if (!change.ok) return change.state;
+      const stations = breachHull(runBotStations(change.state, rng, options.botStrategy ?? defaultBotStrategy));
+      if (stations.phase === "GameOver") return stations;
+      // An ejected local seat has no station to run, so Engage ends with the bots.
+      if (!localPlayer) return finishEngage(stations, 0);
+      return { ...stations, activeMinigame: { playerId: localPlayer.id, seed: nextSeed(rng), itemId: null } };
+    }
+    case "engage.useItem":
+      return breachHull(playItem(state, action.playerId, action.itemId, rng));
+    case "sabotage.use":
+      return useSabotage(state, action.playerId, action.toolId, action.targetId, rng);
+    case "engage.completeMinigame":
+      return breachHull(completeMinigame(state, action.percentFinished, action.telemetry));
+    case "maintenance.resolve":
+      return resolveMaintenance(state, rng);
+    case "tribunal.vote":
+      return resolveTribunal(state, action.targetId, rng);
+    case "gameOver.restart": {
+      const change = advance(state, { type: "RESTART" });
+      if (!change.ok) return change.state;
+      return createMatchState(
+        resetCrew(state.players),
+        nextSeed(rng),
+        state.botDifficulty,
+        state.dealJobs,
+        state.tribunal,
+      );
+    }
+    default:
+      return state;
+  }
+};
+
+/**
+ * Pure reducer: returns the next state, or the same object when the action
+ * does not apply in the current phase.
+ */
+export const reduce = (state: GameState, action: GameAction, options: ReduceOptions = {}): GameState => {
+  const rng = resumeRng(state.rngState);
+  const next = applyAction(state, action, rng, options);
+  if (next === state) return state;
+  // Actions that reseed (lobby seed, restart) set the position themselves.
+  if (next.seed !== state.seed) return next;
+  return { ...next, rngState: rng.getState() };
+};
@@ -0,0 +1,107 @@
+import { getLocalPlayer, type GameAction, type GameState } from "./engine";
+import { isJob } from "./jobs";
+import { isBotDifficulty } from "./bots";
+import { createPowerCard } from "./cards";
+import { SABOTAGE_TOOL_IDS, type ItemId, type MinigameTelemetry, type SabotageToolId } from "./types";
+
+const isMinigameTelemetry = (value: unknown): value is MinigameTelemetry => {
+  const { stats, inputs, pauses } = (value ?? {}) as {
+    stats?: { job?: unknown };
+    inputs?: { count?: unknown };
+    pauses?: { totalMs?: unknown };
+  };
+  return isJob(stats?.job) && typeof inputs?.count === "number" && typeof pauses?.totalMs === "number";
+};
+
+/**
+ * Maps a UI event (as sent through `PhaseUIDispatch`) onto an engine action.
+ * The live app and replay reconstruction share this so a recorded event is
+ * always interpreted the same way.
+ */
+export const toGameAction = (state: GameState, event: string, payload?: unknown): GameAction | null => {
+  switch (event) {
+    case "lobby.rename":
+      return typeof payload === "string" ? { type: "lobby.rename", name: payload } : null;
+    case "lobby.selectJob":
+      return isJob(payload) ? { type: "lobby.selectJob", job: payload } : null;
+    case "lobby.setSeed":
+      return typeof payload === "number" ? { type: "lobby.setSeed", seed: payload } : null;
+    case "lobby.setDifficulty":
+      return isBotDifficulty(payload) ? { type: "lobby.setDifficulty", difficulty: payload } : null;
+    case "lobby.setCrewSize":
+      return typeof payload === "number" ? { type: "lobby.setCrewSize", size: payload } : null;
+    case "lobby.renameBot": {
+      const { playerId, name } = (payload ?? {}) as { playerId?: unknown; name?: unknown };
+      return typeof playerId === "string" && typeof name === "string"
+        ? { type: "lobby.renameBot", playerId, name }
+        : null;
+    }
+    case "lobby.setDealJobs":
+      return typeof payload === "boolean" ? { type: "lobby.setDealJobs", enabled: payload } : null;
+    case "lobby.setTribunal":
+      return typeof payload === "boolean" ? { type: "lobby.setTribunal", enabled: payload } : null;
+    case "lobby.ready":
+      return { type: "lobby.ready" };
+    case "roleReveal.continue":
+      return { type: "roleReveal.continue" };
+    case "plan.chooseCard":
+      if (typeof payload === "string") return { type: "plan.chooseCard", cardId: payload };
+      // Logs from before special cards picked plain numbers.
+      return typeof payload === "number" ? { type: "plan.chooseCard", cardId: createPowerCard(payload).id } : null;
+    case "plan.useItem": {
+      const localPlayer = getLocalPlayer(state);
+      const { itemId, targetId } = (typeof payload === "string" ? { itemId: payload } : payload ?? {}) as {
+        itemId?: unknown;
+        targetId?: unknown;
+      };
+      if (!localPlayer || typeof itemId !== "string") return null;
+      return {
+        type: "plan.useItem",
+        playerId: localPlayer.id,
+        itemId,
+        ...(typeof targetId === "string" && { targetId }),
+      };
+    }
+    case "plan.lock":
+      return { type: "plan.lock" };
+    case "ignition.proceed":
+      return { type: "ignition.proceed" };
+    case "engage.useItem": {
+      const localPlayer = getLocalPlayer(state);
+      if (!localPlayer || typeof payload !== "string") return null;
+      return { type: "engage.useItem", playerId: localPlayer.id, itemId: payload as ItemId };
+    }
+    case "sabotage.use": {
+      const localPlayer = getLocalPlayer(state);
+      const { toolId, targetId } = (payload ?? {}) as { toolId?: unknown; targetId?: unknown };
+      if (!localPlayer || !SABOTAGE_TOOL_IDS.includes(toolId as SabotageToolId)) return null;
+      return {
+        type: "sabotage.use",
+        playerId: localPlayer.id,
+        toolId: toolId as SabotageToolId,
+        ...(typeof targetId === "string" && { targetId }),
+      };
+    }
+    case "engage.completeMinigame": {
+      // Logs from before telemetry carry the bare percent.
+      if (typeof payload === "number") return { type: "engage.completeMinigame", percentFinished: payload };
+      const { percentFinished, telemetry } = (payload ?? {}) as { percentFinished?: unknown; telemetry?: unknown };
+      if (typeof percentFinished !== "number") return null;
+      return {
+        type: "engage.completeMinigame",
+        percentFinished,
+        ...(isMinigameTelemetry(telemetry) && { telemetry }),
+      };
+    }
+    case "maintenance.resolve":
+      return { type: "maintenance.resolve" };
+    case "tribunal.vote":
+      // No payload (or null) skips the vote.
+      if (payload == null) return { type: "tribunal.vote", targetId: null };
+      return typeof payload === "string" ? { type: "tribunal.vote", targetId: payload } : null;
+    case "gameOver.restart":
+      return { type: "gameOver.restart" };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,77 @@
+import type { BalanceConfig } from "./config";
+import type { ItemDefinition, ItemId, ItemInstance, Job, MinigameTier } from "./types";
+
+const roundHundred = (value: number) => Math.round(value * 100) / 100;
+
+export const getItemDefinition = (balance: BalanceConfig, itemId: ItemId): ItemDefinition | undefined =>
+  Object.prototype.hasOwnProperty.call(balance.items, itemId) ? balance.items[itemId] : undefined;
+
+/** Catalog ids owned by a job, in config order. */
+export const getJobItemIds = (balance: BalanceConfig, job: Job): ItemId[] =>
+  Object.keys(balance.items).filter((id) => balance.items[id].job === job);
+
+export const createItemInstance = (id: ItemId, definition: ItemDefinition): ItemInstance => ({
+  id,
+  name: definition.name,
+  timing: definition.timing,
+  job: definition.job,
+  used: false,
+});
+
+/**
+ * The item's full-strength effect, before any tier scaling.
+ */
+export const getBaseItemEffect = (
+  definition: ItemDefinition,
+  isBelowGate: boolean,
+): { deltaTotal: number; deltaShip: number } => {
+  const { effect } = definition;
+  const deltaTotal =
+    effect.kind === "gate"
+      ? isBelowGate
+        ? effect.belowGate
+        : effect.otherwise
+      : effect.kind === "flat"
+      ? effect.deltaTotal
+      : 0;
+  return { deltaTotal, deltaShip: definition.deltaShip };
+};
+
+export const getItemEffect = ({
+  itemId,
+  tier,
+  isBelowGate,
+  balance,
+}: {
+  itemId: ItemId;
+  tier: MinigameTier;
+  isBelowGate: boolean;
+  balance: BalanceConfig;
+}): { deltaTotal: number; deltaShipHealth01: number } => {
+  const definition = getItemDefinition(balance, itemId);
+  if (!definition) return { deltaTotal: 0, deltaShipHealth01: 0 };
+  const base = getBaseItemEffect(definition, isBelowGate);
+  return {
+    deltaTotal: roundHundred(base.deltaTotal * definition.tierMultipliers[tier]),
+    deltaShipHealth01: roundHundred(base.deltaShip * definition.shipTierMultipliers[tier]),
+  };
+};
+
+const formatSigned = (value: number) => `${value > 0 ? "+" : ""}${value}`;
+
+/**
+ * Fills the description template with the item's configured numbers.
+ */
+export const describeItem = (definition: ItemDefinition): string => {
+  const { effect } = definition;
+  const values: Record<string, string> = {
+    deltaShip: `${formatSigned(Math.round(definition.deltaShip * 100))}%`,
+    ...(effect.kind === "flat" && { deltaTotal: formatSigned(effect.deltaTotal) }),
+    ...(effect.kind === "gate" && {
+      belowGate: formatSigned(effect.belowGate),
+      otherwise: formatSigned(effect.otherwise),
+    }),
+    ...(effect.kind === "gateProbe" && { spread: String(effect.spread) }),
+  };
+  return definition.description.replace(/\{(\w+)\}/g, (token, key: string) => values[key] ?? token);
+};
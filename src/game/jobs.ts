@@ -0,0 +1,106 @@
+import type { MinigameSimulation, SimulationState } from "../minigames/simulation/core";
+import { coolantTechSimulation } from "../minigames/simulation/coolantTech";
+import { fluxSpecialistSimulation } from "../minigames/simulation/fluxSpecialist";
+import { hullTechnicianSimulation } from "../minigames/simulation/hullTechnician";
+import { powerEngineerSimulation } from "../minigames/simulation/powerEngineer";
+import type { ItemId } from "./types";
+
+// Every station job is declared here once. The engine, bots and UI read jobs
+// through this table, along with the pure simulation behind each station's
+// minigame; minigames/registry.tsx maps those simulations to the components
+// that draw them. Adding a station means a new entry here, its simulation and
+// component, and its items and tier table in the balance config.
+
+export type JobAccent = {
+  /** Tailwind classes, spelled out in full so the JIT picks them up. */
+  border: string;
+  background: string;
+  text: string;
+};
+
+export type JobDefinition = {
+  label: string;
+  accent: JobAccent;
+  /** Name of the station minigame, shown above the run. */
+  abilityName: string;
+  /** Catalog ids dealt with the job, in hand order. */
+  startingItems: ItemId[];
+  /** Percent a bot loses at full reactor energy and at zero ship health. */
+  strain: { energy: number; damage: number };
+  /** The station minigame's rules, playable without React or a canvas. */
+  simulation: MinigameSimulation<SimulationState>;
+};
+
+const REQUIRED_TEXT = ["label", "abilityName"] as const;
+const ACCENT_KEYS: (keyof JobAccent)[] = ["border", "background", "text"];
+
+/** Throws on the first job that is missing a piece, so a half-wired job never ships. */
+const defineJobs = <T extends Record<string, JobDefinition>>(definitions: T): T => {
+  Object.entries(definitions).forEach(([id, definition]) => {
+    REQUIRED_TEXT.forEach((key) => {
+      if (typeof definition[key] !== "string" || definition[key].trim() === "") {
+        throw new Error(`Job "${id}" is missing ${key}`);
+      }
+    });
+    if (ACCENT_KEYS.some((key) => !definition.accent?.[key])) {
+      throw new Error(`Job "${id}" needs ${ACCENT_KEYS.join(", ")} accent classes`);
+    }
+    if (!Array.isArray(definition.startingItems) || definition.startingItems.length === 0) {
+      throw new Error(`Job "${id}" has no starting items`);
+    }
+    if (!Number.isFinite(definition.strain?.energy) || !Number.isFinite(definition.strain?.damage)) {
+      throw new Error(`Job "${id}" is missing its bot strain`);
+    }
+    if (typeof definition.simulation?.step !== "function") {
+      throw new Error(`Job "${id}" has no minigame simulation`);
+    }
+  });
+  return definitions;
+};
+
+export const JOB_DEFINITIONS = defineJobs({
+  PowerEngineer: {
+    label: "Power Engineer",
+    accent: { border: "border-red-400/60", background: "bg-red-500/10", text: "text-red-300" },
+    abilityName: "Reactor Tuning",
+    startingItems: ["BOOST", "REDRAW"],
+    strain: { energy: 20, damage: 10 },
+    simulation: powerEngineerSimulation,
+  },
+  CoolantTech: {
+    label: "Coolant Tech",
+    accent: { border: "border-sky-400/60", background: "bg-sky-500/10", text: "text-sky-300" },
+    abilityName: "Coolant Balancing",
+    startingItems: ["VENT", "GATE_PROBE"],
+    strain: { energy: 10, damage: 20 },
+    simulation: coolantTechSimulation,
+  },
+  FluxSpecialist: {
+    label: "Flux Specialist",
+    accent: { border: "border-emerald-400/60", background: "bg-emerald-500/10", text: "text-emerald-300" },
+    abilityName: "Flux Equalization",
+    startingItems: ["EQUALIZER", "SCAN"],
+    strain: { energy: 15, damage: 15 },
+    simulation: fluxSpecialistSimulation,
+  },
+  HullTechnician: {
+    label: "Hull Technician",
+    accent: { border: "border-orange-400/60", background: "bg-orange-500/10", text: "text-orange-300" },
+    abilityName: "Crack Welding",
+    startingItems: ["PATCH"],
+    strain: { energy: 10, damage: 20 },
+    simulation: hullTechnicianSimulation,
+  },
+});
+
+export type Job = keyof typeof JOB_DEFINITIONS;
+
+export const JOBS = Object.keys(JOB_DEFINITIONS) as Job[];
+
+export const isJob = (value: unknown): value is Job =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(JOB_DEFINITIONS, value);
+
+export const getJobDefinition = (job: Job): JobDefinition => {
+  if (!isJob(job)) throw new Error(`Unknown job "${job}"`);
+  return JOB_DEFINITIONS[job];
+};
@@ -0,0 +1,70 @@
+import { getCachedBalanceConfig, type BalanceConfig } from "./config";
+import type { GameState } from "./engine";
+import type { Role } from "./types";
+
+// The one place that decides whether a match is over, who won and why. The
+// engine asks it before every phase change that could end the match, and the
+// GameOver screen and simulator report its reason.
+
+export type MatchEndReason =
+  | "hullDestroyed"
+  | "reactorOverloaded"
+  | "saboteursEjected"
+  | "hazardsCleared"
+  | "insufficientClears";
+
+export const MATCH_END_REASONS: MatchEndReason[] = [
+  "hullDestroyed",
+  "reactorOverloaded",
+  "saboteursEjected",
+  "hazardsCleared",
+  "insufficientClears",
+];
+
+export type MatchResult = {
+  winner: Role;
+  reason: MatchEndReason;
+  /** Short explanation, e.g. "Reactor overloaded twice". */
+  label: string;
+};
+
+type MatchView = Pick<GameState, "shipHP" | "overloads" | "clears" | "players" | "ejected" | "roundIndex" | "round">;
+
+const timesLabel = (count: number) => (count === 1 ? "once" : count === 2 ? "twice" : `${count} times`);
+
+/**
+ * Returns the result once the match is decided, or null while it goes on.
+ * Checks run in priority order: a destroyed hull or an overloaded reactor
+ * ends the match even if the crew had already done enough to win.
+ */
+export const getMatchResult = (
+  state: MatchView,
+  balance: BalanceConfig = getCachedBalanceConfig(),
+): MatchResult | null => {
+  if (state.shipHP <= 0) {
+    return { winner: "Saboteur", reason: "hullDestroyed", label: "Hull destroyed" };
+  }
+  if (state.overloads >= balance.overloadsToLose) {
+    return {
+      winner: "Saboteur",
+      reason: "reactorOverloaded",
+      label: `Reactor overloaded ${timesLabel(state.overloads)}`,
+    };
+  }
+  const saboteursAboard = state.players.filter(
+    (player) => player.role === "Saboteur" && !state.ejected.includes(player.id),
+  ).length;
+  if (balance.tribunal.saboteurEjected === "win" && saboteursAboard === 0 && state.ejected.length > 0) {
+    return { winner: "Crew", reason: "saboteursEjected", label: "Every saboteur ejected" };
+  }
+  // Running out of rounds only counts once the last round has resolved.
+  if (state.roundIndex < balance.roundsMax || state.round.outcome === null) return null;
+  if (state.clears >= balance.clearsToWin) {
+    return { winner: "Crew", reason: "hazardsCleared", label: `Cleared ${state.clears} hazards` };
+  }
+  return {
+    winner: "Saboteur",
+    reason: "insufficientClears",
+    label: `Insufficient clears (${state.clears}/${balance.clearsToWin})`,
+  };
+};
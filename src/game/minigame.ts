@@ -1,38 +1,58 @@
-import type { MinigameResult, MinigameTier } from "./types";
+import { getCachedBalanceConfig, type BalanceConfig } from "./config";
+import type { Job, MinigameResult, MinigameTier, MinigameTierRule } from "./types";
 
 export type { MinigameTier } from "./types";
 
-export function getMinigameTier(percentFinished: number): MinigameTier {
-  if (percentFinished >= 80) return "SUCCESS";
-  if (percentFinished >= 40) return "PARTIAL";
-  return "FAIL";
+const FALLBACK_RULE: MinigameTierRule = { name: "FAIL", tier: "FAIL", minPercent: 0, deltaTotal: 0, deltaShip: 0 };
+
+/**
+ * The best row of the job's outcome table that the run reached. Tables are
+ * ordered best first.
+ */
+export function getMinigameTierRule(
+  job: Job,
+  percentFinished: number,
+  balance: BalanceConfig = getCachedBalanceConfig(),
+): MinigameTierRule {
+  const table = balance.minigames[job] ?? [];
+  return table.find((rule) => percentFinished >= rule.minPercent) ?? table[table.length - 1] ?? FALLBACK_RULE;
 }
 
-export type ResolvedMinigame = Pick<
-  MinigameResult,
-  "tier" | "percentFinished" | "deltaTotal" | "deltaShipHP"
->;
+export function getMinigameTier(job: Job, percentFinished: number): MinigameTier {
+  return getMinigameTierRule(job, percentFinished).tier;
+}
 
-export function resolveMinigame(percentFinished: number): ResolvedMinigame {
-  const tier = getMinigameTier(percentFinished);
-  let deltaTotal = 0;
-  let deltaShipHP = 0;
+export type ResolvedMinigame = Pick<MinigameResult, "tier" | "grade" | "percentFinished" | "deltaTotal"> & {
+  /** Ship health change as a fraction of max. */
+  deltaShip: number;
+};
 
-  switch (tier) {
-    case "SUCCESS":
-      deltaTotal = 3;
-      deltaShipHP = 0;
-      break;
-    case "PARTIAL":
-      deltaTotal = 0;
-      deltaShipHP = 0;
-      break;
-    case "FAIL":
-    default:
-      deltaTotal = -2;
-      deltaShipHP = -1;
-      break;
-  }
+export function resolveMinigame(
+  job: Job,
+  percentFinished: number,
+  balance: BalanceConfig = getCachedBalanceConfig(),
+): ResolvedMinigame {
+  const rule = getMinigameTierRule(job, percentFinished, balance);
+  return {
+    tier: rule.tier,
+    grade: rule.name,
+    percentFinished,
+    deltaTotal: rule.deltaTotal,
+    deltaShip: rule.deltaShip,
+  };
+}
 
-  return { tier, percentFinished, deltaTotal, deltaShipHP };
+/**
+ * What the table is shown for a result: a SPOOFed station run is graded on
+ * its reported percent, so its tier and grade agree with the number.
+ */
+export function getReportedOutcome(
+  result: MinigameResult,
+  balance: BalanceConfig = getCachedBalanceConfig(),
+): Pick<MinigameResult, "tier" | "grade" | "percentFinished"> {
+  if (result.reportedPercent === undefined) {
+    return { tier: result.tier, grade: result.grade, percentFinished: result.percentFinished };
+  }
+  const rule = getMinigameTierRule(result.job, result.reportedPercent, balance);
+  return { tier: rule.tier, grade: rule.name, percentFinished: result.reportedPercent };
 }
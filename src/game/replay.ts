@@ -0,0 +1,179 @@
+import {
+  defaultBalanceConfig,
+  getCachedBalanceConfig,
+  setCachedBalanceConfig,
+  type BalanceConfig,
+} from "./config";
+import { validateBalanceConfig } from "./configValidation";
+import { createGameState, getLobbySetup, getLocalPlayer, reduce, type GameState, type LobbySetup } from "./engine";
+import { toGameAction } from "./events";
+import { isBotDifficulty } from "./bots";
+import { getItemDefinition } from "./itemCatalog";
+import { isJob } from "./jobs";
+import { createRng } from "./rng";
+import type { ItemId, Job, MinigameInputSample } from "./types";
+import { simulateMinigame, type MinigameParams } from "../minigames/simulation";
+
+export const MATCH_LOG_VERSION = 1;
+
+export type LoggedEvent = {
+  /** ms since the log was started. */
+  at: number;
+  event: string;
+  payload?: unknown;
+};
+
+export type MinigameRecording = {
+  roundIndex: number;
+  playerId: string;
+  job: Job;
+  /** Set when the run was an item's skill check. */
+  itemId: ItemId | null;
+  seed: number;
+  percentFinished: number;
+  /** The factors the run was tuned by; null in logs that predate it. */
+  params: MinigameParams | null;
+  inputs: MinigameInputSample[];
+};
+
+export type MatchLog = {
+  version: number;
+  seed: number;
+  balance: BalanceConfig;
+  /** The Lobby the first event acts on; null in logs that predate it (the default crew). */
+  start: LobbySetup | null;
+  lobby: { name: string; job: Job } | null;
+  events: LoggedEvent[];
+  minigames: MinigameRecording[];
+};
+
+export type ReplayFrame = {
+  state: GameState;
+  /** The event that produced this frame; null for the initial Lobby frame. */
+  event: LoggedEvent | null;
+};
+
+// Keystroke-style events overwrite the previous value, so only the last of a
+// consecutive run is needed to reproduce the match.
+const COALESCED_EVENTS = new Set([
+  "lobby.rename",
+  "lobby.setSeed",
+  "lobby.setDifficulty",
+  "lobby.setCrewSize",
+  "lobby.setDealJobs",
+  "lobby.setTribunal",
+]);
+
+export const createMatchLog = (state: GameState, balance: BalanceConfig): MatchLog => ({
+  version: MATCH_LOG_VERSION,
+  seed: state.seed,
+  balance,
+  start: getLobbySetup(state),
+  lobby: null,
+  events: [],
+  minigames: [],
+});
+
+export const appendLoggedEvent = (log: MatchLog, entry: LoggedEvent): MatchLog => {
+  const last = log.events[log.events.length - 1];
+  const events =
+    last && last.event === entry.event && COALESCED_EVENTS.has(entry.event)
+      ? [...log.events.slice(0, -1), entry]
+      : [...log.events, entry];
+  return { ...log, events };
+};
+
+/**
+ * Stamps the lobby choices the local player went into the match with.
+ */
+export const recordLobbyChoices = (log: MatchLog, state: GameState): MatchLog => {
+  const localPlayer = getLocalPlayer(state);
+  if (!localPlayer) return log;
+  return { ...log, lobby: { name: localPlayer.name, job: localPlayer.job } };
+};
+
+export const appendMinigameRecording = (log: MatchLog, recording: MinigameRecording): MatchLog => ({
+  ...log,
+  minigames: [...log.minigames, recording],
+});
+
+/**
+ * Re-runs the logged events through the engine under the logged balance
+ * config. Frame 0 is the starting Lobby; frame i follows event i - 1.
+ */
+export const buildReplayFrames = (log: MatchLog): ReplayFrame[] => {
+  const previousBalance = getCachedBalanceConfig();
+  setCachedBalanceConfig(log.balance);
+  try {
+    let state = createGameState(log.seed, log.start ?? undefined);
+    const frames: ReplayFrame[] = [{ state, event: null }];
+    log.events.forEach((entry) => {
+      const action = toGameAction(state, entry.event, entry.payload);
+      if (action) {
+        state = reduce(state, action);
+      }
+      frames.push({ state, event: entry });
+    });
+    return frames;
+  } finally {
+    setCachedBalanceConfig(previousBalance);
+  }
+};
+
+/**
+ * Plays a recorded run's inputs back through its job's simulation and returns
+ * the percent they earn, or null when the log lacks what a re-run needs. A
+ * result that differs from `percentFinished` means the recording was edited
+ * or the run was not reproducible.
+ */
+export const recheckMinigameRecording = (log: MatchLog, recording: MinigameRecording): number | null => {
+  if (!recording.params) return null;
+  // Item checks play the owning job's minigame, condensed.
+  const job = recording.itemId ? getItemDefinition(log.balance, recording.itemId)?.job : recording.job;
+  if (!job) return null;
+  return simulateMinigame(job, recording.params, createRng(recording.seed), recording.inputs);
+};
+
+export const serializeMatchLog = (log: MatchLog): string => JSON.stringify(log);
+
+const isMinigameParams = (value: unknown): value is MinigameParams => {
+  const { reactorEnergy, shipHealth, durationMs } = (value ?? {}) as Record<string, unknown>;
+  return [reactorEnergy, shipHealth, durationMs].every(Number.isFinite);
+};
+
+const parseLobbySetup = (value: unknown): LobbySetup | null => {
+  const { seats, botDifficulty, dealJobs, tribunal } = (value ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(seats) || typeof dealJobs !== "boolean" || typeof tribunal !== "boolean") return null;
+  if (!isBotDifficulty(botDifficulty)) return null;
+  const valid = seats.every((seat) => typeof seat?.name === "string" && isJob(seat?.job));
+  return valid ? { seats, botDifficulty, dealJobs, tribunal } : null;
+};
+
+export const parseMatchLog = (text: string): MatchLog => {
+  const raw = JSON.parse(text) as Partial<MatchLog>;
+  if (!raw || typeof raw !== "object") {
+    throw new Error("Match log must be a JSON object");
+  }
+  if (raw.version !== MATCH_LOG_VERSION) {
+    throw new Error(`Unsupported match log version ${String(raw.version)}`);
+  }
+  if (typeof raw.seed !== "number" || !Array.isArray(raw.events) || !raw.balance) {
+    throw new Error("Match log is missing seed, balance or events");
+  }
+  return {
+    version: raw.version,
+    seed: raw.seed,
+    // Logs from before a knob existed fall back to that knob's default.
+    balance: validateBalanceConfig(raw.balance, defaultBalanceConfig).config,
+    start: parseLobbySetup(raw.start),
+    lobby: raw.lobby ?? null,
+    events: raw.events,
+    minigames: Array.isArray(raw.minigames)
+      ? raw.minigames.map((recording) => ({
+          ...recording,
+          itemId: recording.itemId ?? null,
+          params: isMinigameParams(recording.params) ? recording.params : null,
+        }))
+      : [],
+  };
+};
@@ -5,6 +5,13 @@ export type Rng = {
   next: () => number;
 };
 
+/**
+ * An Rng whose position can be read back and resumed later via `resumeRng`.
+ */
+export type SeededRng = Rng & {
+  getState: () => number;
+};
+
 const FALLBACK_RNG: Rng = {
   next: () => Math.random(),
 };
@@ -12,11 +19,8 @@ const FALLBACK_RNG: Rng = {
 /**
  * Mulberry32 PRNG for deterministic playtest runs.
  */
-const mulberry32 = (seed: number): Rng => {
-  let state = seed >>> 0;
-  if (state === 0) {
-    state = 0x6d2b79f5; // avoid a zero-lock state
-  }
+const mulberry32 = (initialState: number): SeededRng => {
+  let state = initialState | 0;
   return {
     next: () => {
       state |= 0;
@@ -25,14 +29,49 @@ const mulberry32 = (seed: number): Rng => {
       t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
       return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
     },
+    getState: () => state >>> 0,
   };
 };
 
+/**
+ * Normalizes a seed into the initial mulberry32 state.
+ */
+export const seedToState = (seed: number): number => {
+  const state = seed >>> 0;
+  return state === 0 ? 0x6d2b79f5 : state; // avoid a zero-lock state
+};
+
 export const createRng = (seed?: number): Rng => {
   if (typeof seed !== "number" || !Number.isFinite(seed)) {
     return FALLBACK_RNG;
   }
-  return mulberry32(seed);
+  return mulberry32(seedToState(seed));
+};
+
+/**
+ * Continues a sequence from a state previously read with `getState`.
+ */
+export const resumeRng = (state: number): SeededRng => mulberry32(state);
+
+/**
+ * Draws a fresh 32-bit seed from `rng`.
+ */
+export const nextSeed = (rng: Rng): number => Math.floor(rng.next() * 4294967296) >>> 0;
+
+/**
+ * Derives an independent stream so a subsystem can draw freely without
+ * disturbing the parent sequence beyond a single draw.
+ */
+export const forkRng = (rng: Rng): SeededRng => mulberry32(seedToState(nextSeed(rng)));
+
+/**
+ * Standard normal draw (Box–Muller); consumes two values from `rng`.
+ */
+export const nextGaussian = (rng: Rng): number => {
+  // 1 - next() keeps the log argument above zero.
+  const u = 1 - rng.next();
+  const v = rng.next();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
 };
 
 export const shuffleArray = <T>(values: T[], rng: Rng): T[] => {
@@ -0,0 +1,86 @@
+import { getCachedBalanceConfig, type BalanceConfig } from "./config";
+import type {
+  ItemId,
+  ItemTiming,
+  Player,
+  RoundState,
+  SabotageTool,
+  SabotageToolId,
+  SabotageUse,
+} from "./types";
+
+// The saboteurs' secret toolkit. Tools are dealt with the Saboteur role, never
+// through the job item catalog, and each has a per-match use limit. A tool can
+// be spent once per round; whether a use shows up in the Maintenance log is
+// rolled against its traceChance when it is spent.
+
+export type SabotageToolInfo = {
+  name: string;
+  timing: ItemTiming;
+  /** Who the tool can be aimed at: nobody, another seat, or any seat. */
+  target: "none" | "other" | "any";
+  /** SVG path on a 16×16 viewBox and its stroke colour. */
+  icon: { path: string; color: string };
+};
+
+export const SABOTAGE_TOOLS: Record<SabotageToolId, SabotageToolInfo> = {
+  SURGE: {
+    name: "SURGE",
+    timing: "Engage",
+    target: "none",
+    icon: { path: "M9 2 L4 9 H8 L7 14 L12 7 H8 Z", color: "#f87171" },
+  },
+  JAM: {
+    name: "JAM",
+    timing: "Plan",
+    target: "other",
+    icon: { path: "M3 3 L13 13 M13 3 L3 13", color: "#f87171" },
+  },
+  SPOOF: {
+    name: "SPOOF",
+    timing: "Engage",
+    target: "any",
+    icon: { path: "M3 12 L6 6 L9 10 L13 3", color: "#f87171" },
+  },
+};
+
+export const createSabotageTools = (balance: BalanceConfig = getCachedBalanceConfig()): SabotageTool[] =>
+  (Object.keys(SABOTAGE_TOOLS) as SabotageToolId[]).map((id) => ({ id, usesLeft: balance.sabotage[id].uses }));
+
+const formatSigned = (value: number) => `${value > 0 ? "+" : ""}${value}`;
+
+const traceOdds = (chance: number) =>
+  chance >= 1 ? "Always leaves a trace." : chance <= 0 ? "Leaves no trace." : `${Math.round(chance * 100)}% chance to leave a trace.`;
+
+export const describeSabotageTool = (id: SabotageToolId, balance: BalanceConfig = getCachedBalanceConfig()): string => {
+  const rules = balance.sabotage;
+  switch (id) {
+    case "SURGE":
+      return `Secretly ${formatSigned(rules.SURGE.deltaTotal)} to the reactor total once items resolve. ${traceOdds(rules.SURGE.traceChance)}`;
+    case "JAM":
+      return `Disable another seat's Engage item for this round. ${traceOdds(rules.JAM.traceChance)}`;
+    case "SPOOF":
+      return `Misreport a station run by ${rules.SPOOF.offset}%: up for your own, down for anyone else's. ${traceOdds(rules.SPOOF.traceChance)}`;
+  }
+};
+
+/** The Maintenance log line a traced use leaves. It never names the saboteur. */
+export const describeSabotageTrace = (
+  use: SabotageUse,
+  players: Player[],
+  balance: BalanceConfig = getCachedBalanceConfig(),
+): string => {
+  const target = players.find((p) => p.id === use.targetId);
+  const itemName = target?.items.find((item) => item.id === use.itemId)?.name ?? use.itemId;
+  switch (use.toolId) {
+    case "SURGE":
+      return `Reactor read ${formatSigned(balance.sabotage.SURGE.deltaTotal)} more than the stations account for.`;
+    case "JAM":
+      return `${target?.name ?? "Someone"}'s ${itemName ?? "item"} would not respond.`;
+    case "SPOOF":
+      return `${target?.name ?? "Someone"}'s station report does not match telemetry.`;
+  }
+};
+
+export const isItemJammed = (round: Pick<RoundState, "sabotage">, playerId: string, itemId: ItemId): boolean =>
+  round.sabotage.some((use) => use.toolId === "JAM" && use.targetId === playerId && use.itemId === itemId);
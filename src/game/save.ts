@@ -0,0 +1,200 @@
+import { createPowerCard } from "./cards";
+import { createSabotageTools } from "./sabotage";
+import type { GameState } from "./engine";
+import type { MatchLog } from "./replay";
+
+export const SAVE_SCHEMA_VERSION = 10;
+export const SAVE_STORAGE_KEY = "core-overload.save";
+
+export type SavedMatch = {
+  version: number;
+  savedAt: number;
+  state: GameState;
+  log: MatchLog | null;
+};
+
+type SaveStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+type RawSave = { version: number } & Record<string, unknown>;
+
+// migrations[n] upgrades a version-n save to version n + 1. When a rule change
+// alters GameState, bump SAVE_SCHEMA_VERSION and add the step here instead of
+// discarding players' saves.
+const migrations: Record<number, (save: RawSave) => RawSave> = {
+  // v2: item skill checks share the minigame slot and can queue behind it.
+  1: (save) => {
+    const state = save.state as Record<string, unknown> | undefined;
+    if (!state || typeof state !== "object") return { ...save, version: 2 };
+    const active = state.activeMinigame as Record<string, unknown> | null | undefined;
+    return {
+      ...save,
+      version: 2,
+      state: {
+        ...state,
+        activeMinigame: active ? { ...active, itemId: null } : null,
+        itemChecks: [],
+      },
+    };
+  },
+  // v3: results carry the outcome-table grade they reached.
+  2: (save) => {
+    const state = save.state as { round?: { minigameResults?: Record<string, unknown>[] } } | undefined;
+    const results = state?.round?.minigameResults;
+    if (!state?.round || !Array.isArray(results)) return { ...save, version: 3 };
+    return {
+      ...save,
+      version: 3,
+      state: {
+        ...state,
+        round: { ...state.round, minigameResults: results.map((result) => ({ grade: result.tier, ...result })) },
+      },
+    };
+  },
+  // v4: bots hold dealt hands; older saves fall back to random cards until the next deal.
+  3: (save) => ({
+    ...save,
+    version: 4,
+    state: { botHands: {}, botDifficulty: "normal", ...(save.state as Record<string, unknown>) },
+  }),
+  // v5: stations can be dealt on Ready; older matches kept their Lobby picks.
+  // Seats are numbered, and older crews sat in player order.
+  4: (save) => {
+    const state = save.state as { players?: Record<string, unknown>[] } | undefined;
+    if (!state || typeof state !== "object") return { ...save, version: 5 };
+    return {
+      ...save,
+      version: 5,
+      state: {
+        dealJobs: false,
+        ...state,
+        players: Array.isArray(state.players)
+          ? state.players.map((player, seatIndex) => ({ seatIndex, ...player }))
+          : state.players,
+      },
+    };
+  },
+  // v6: decks persist across rounds; older matches build them on the next deal.
+  5: (save) => ({
+    ...save,
+    version: 6,
+    state: { decks: {}, ...(save.state as Record<string, unknown>) },
+  }),
+  // v7: cards are objects with a kind; plain numbers become power cards.
+  6: (save) => {
+    const state = save.state as Record<string, unknown> | undefined;
+    if (!state || typeof state !== "object") return { ...save, version: 7 };
+    const toCard = (value: unknown) => (typeof value === "number" ? createPowerCard(value) : value);
+    const toCards = (values: unknown) => (Array.isArray(values) ? values.map(toCard) : values);
+    const mapValues = (record: unknown, map: (value: unknown) => unknown) =>
+      record && typeof record === "object"
+        ? Object.fromEntries(Object.entries(record).map(([key, value]) => [key, map(value)]))
+        : record;
+    const round = state.round as Record<string, unknown> | undefined;
+    const cardsPlayed = round?.cardsPlayed as Record<string, unknown> | undefined;
+    return {
+      ...save,
+      version: 7,
+      state: {
+        ...state,
+        hand: toCards(state.hand),
+        slotCard: toCard(state.slotCard),
+        botHands: mapValues(state.botHands, toCards),
+        decks: mapValues(state.decks, (deck) => {
+          const { draw, discard } = deck as Record<string, unknown>;
+          return { draw: toCards(draw), discard: toCards(discard) };
+        }),
+        round: round && {
+          ...round,
+          cardsPlayed: mapValues(cardsPlayed, toCard),
+          cardValues: mapValues(cardsPlayed, (value) => (typeof value === "number" ? value : 0)),
+        },
+      },
+    };
+  },
+  // v8: Plan items keep private intel per player.
+  7: (save) => ({
+    ...save,
+    version: 8,
+    state: { reveals: {}, ...(save.state as Record<string, unknown>) },
+  }),
+  // v9: saboteurs hold a secret toolkit and rounds record its uses. Saboteurs
+  // mid-match get a full kit.
+  8: (save) => {
+    const state = save.state as { players?: Record<string, unknown>[]; round?: Record<string, unknown> } | undefined;
+    if (!state || typeof state !== "object") return { ...save, version: 9 };
+    return {
+      ...save,
+      version: 9,
+      state: {
+        ...state,
+        players: Array.isArray(state.players)
+          ? state.players.map((player) => ({
+              sabotage: player.role === "Saboteur" ? createSabotageTools() : [],
+              ...player,
+            }))
+          : state.players,
+        round: state.round && { sabotage: [], ...state.round },
+      },
+    };
+  },
+  // v10: the optional Tribunal can eject seats; older matches never held one.
+  9: (save) => ({
+    ...save,
+    version: 10,
+    state: { tribunal: false, ejected: [], tribunals: [], ...(save.state as Record<string, unknown>) },
+  }),
+};
+
+export const migrateSave = (raw: unknown): SavedMatch | null => {
+  if (!raw || typeof raw !== "object") return null;
+  let save = raw as RawSave;
+  if (typeof save.version !== "number" || save.version > SAVE_SCHEMA_VERSION) return null;
+
+  while (save.version < SAVE_SCHEMA_VERSION) {
+    const migrate = migrations[save.version];
+    if (!migrate) return null;
+    save = migrate(save);
+  }
+
+  const state = save.state as GameState | undefined;
+  if (!state || typeof state !== "object" || !Array.isArray(state.players) || !state.round) {
+    return null;
+  }
+  return {
+    version: save.version,
+    savedAt: typeof save.savedAt === "number" ? save.savedAt : 0,
+    // Diagnostics are per-session; a resumed match starts clean.
+    state: { ...state, rejectedTransition: null },
+    log: (save.log as MatchLog | null | undefined) ?? null,
+  };
+};
+
+export const readSave = (storage: SaveStorage): SavedMatch | null => {
+  try {
+    const text = storage.getItem(SAVE_STORAGE_KEY);
+    return text ? migrateSave(JSON.parse(text)) : null;
+  } catch (error) {
+    console.warn("Saved match could not be read, ignoring it", error);
+    return null;
+  }
+};
+
+export const writeSave = (
+  storage: SaveStorage,
+  { state, log }: { state: GameState; log: MatchLog | null },
+): void => {
+  const save: SavedMatch = { version: SAVE_SCHEMA_VERSION, savedAt: Date.now(), state, log };
+  try {
+    storage.setItem(SAVE_STORAGE_KEY, JSON.stringify(save));
+  } catch (error) {
+    console.warn("Match could not be saved", error);
+  }
+};
+
+export const clearSave = (storage: SaveStorage): void => {
+  try {
+    storage.removeItem(SAVE_STORAGE_KEY);
+  } catch (error) {
+    console.warn("Saved match could not be cleared", error);
+  }
+};
@@ -1,56 +1,111 @@
-import type { ItemInstance, Job, Player, RoundState } from "./types";
+import { getCachedBalanceConfig } from "./config";
+import { createItemInstance, getJobItemIds } from "./itemCatalog";
+import { getJobDefinition } from "./jobs";
+import { shuffleArray, type Rng } from "./rng";
+import { createSabotageTools } from "./sabotage";
+import {
+  CREW_SIZE_MAX,
+  CREW_SIZE_MIN,
+  JOBS,
+  type Card,
+  type ItemInstance,
+  type Job,
+  type Player,
+  type RoundState,
+} from "./types";
 
 export const LOCAL_PLAYER_ID = "p1";
 
-export const createJobItems = (job: Job): ItemInstance[] => {
-  switch (job) {
-    case "PowerEngineer":
-      return [{ id: "BOOST", name: "BOOST", timing: "Engage", job, used: false }];
-    case "CoolantTech":
-      return [{ id: "VENT", name: "VENT", timing: "Engage", job, used: false }];
-    case "FluxSpecialist":
-      return [{ id: "EQUALIZER", name: "EQUALIZER", timing: "Engage", job, used: false }];
-    default:
-      return [];
-  }
+/**
+ * The job's declared starting items that the config still assigns to it,
+ * followed by any extra items the config gives the job.
+ */
+export const createJobItems = (job: Job, balance = getCachedBalanceConfig()): ItemInstance[] => {
+  const owned = getJobItemIds(balance, job);
+  const starting = getJobDefinition(job).startingItems.filter((id) => owned.includes(id));
+  return [...starting, ...owned.filter((id) => !starting.includes(id))].map((id) =>
+    createItemInstance(id, balance.items[id]),
+  );
 };
 
-export const createDefaultPlayers = (): Player[] => [
-  {
-    id: LOCAL_PLAYER_ID,
-    name: "You",
-    seatIndex: 0,
-    role: "Crew",
-    job: "PowerEngineer",
-    items: createJobItems("PowerEngineer"),
-  },
-  {
-    id: "p2",
-    name: "Bravo",
-    seatIndex: 1,
-    role: "Crew",
-    job: "CoolantTech",
-    items: createJobItems("CoolantTech"),
-  },
-  {
-    id: "p3",
-    name: "Charlie",
-    seatIndex: 2,
-    role: "Saboteur",
-    job: "FluxSpecialist",
-    items: createJobItems("FluxSpecialist"),
-  },
-];
-
-const GATE_OFFSETS = [-2, -1, 0, 1, 2];
+export const BOT_NAMES = ["Bravo", "Charlie", "Delta", "Echo", "Foxtrot", "Golf", "Hotel"];
+
+export const clampCrewSize = (size: number): number =>
+  Math.max(CREW_SIZE_MIN, Math.min(CREW_SIZE_MAX, Math.round(size)));
+
+export const getDefaultPlayerName = (seatIndex: number): string =>
+  seatIndex === 0 ? "You" : BOT_NAMES[seatIndex - 1] ?? `Bot ${seatIndex}`;
+
+// Roles are dealt when the match starts; until then every seat is crew.
+const createSeat = (seatIndex: number, job = JOBS[seatIndex % JOBS.length]): Player => ({
+  id: seatIndex === 0 ? LOCAL_PLAYER_ID : `p${seatIndex + 1}`,
+  name: getDefaultPlayerName(seatIndex),
+  seatIndex,
+  role: "Crew",
+  job,
+  items: createJobItems(job),
+  sabotage: [],
+});
+
+export const createDefaultPlayers = (size = CREW_SIZE_MIN): Player[] =>
+  Array.from({ length: clampCrewSize(size) }, (_, seatIndex) => createSeat(seatIndex));
+
+/** A seat as the Lobby leaves it: enough to seat the same crew again. */
+export type LobbySeat = Pick<Player, "name" | "job">;
+
+export const seatCrew = (seats: LobbySeat[]): Player[] =>
+  seats.map((seat, seatIndex) => ({ ...createSeat(seatIndex, seat.job), name: seat.name }));
+
+/** Adds or drops seats from the end, keeping everyone already seated. */
+export const resizeCrew = (players: Player[], size: number): Player[] =>
+  Array.from({ length: clampCrewSize(size) }, (_, seatIndex) => players[seatIndex] ?? createSeat(seatIndex));
+
+/**
+ * Callsigns are kept as typed while the Lobby edits them; the match starts
+ * with them trimmed, and a blank one falls back to the seat's default.
+ */
+export const settleNames = (players: Player[]): Player[] =>
+  players.map((player) => ({ ...player, name: player.name.trim() || getDefaultPlayerName(player.seatIndex) }));
+
+/** Back to Lobby seating: same names and stations, roles and items reset. */
+export const resetCrew = (players: Player[]): Player[] =>
+  players.map((player) => ({ ...player, role: "Crew", items: createJobItems(player.job), sabotage: [] }));
+
+export const getSaboteurCount = (playerCount: number, balance = getCachedBalanceConfig()): number =>
+  balance.saboteurs.reduce((count, rule) => (playerCount >= rule.minPlayers ? rule.count : count), 1);
+
+/**
+ * Deals roles (and, when asked, stations) from the match Rng. Stations are
+ * dealt from an even pool so every job is covered before any doubles up.
+ */
+export const dealRoles = (players: Player[], rng: Rng, dealJobs: boolean): Player[] => {
+  const seats = shuffleArray(players.map((player) => player.seatIndex), rng);
+  const saboteurSeats = new Set(seats.slice(0, getSaboteurCount(players.length)));
+  const jobs = dealJobs ? shuffleArray(players.map((_, index) => JOBS[index % JOBS.length]), rng) : null;
+  return players.map((player, index) => {
+    const job = jobs?.[index] ?? player.job;
+    const isSaboteur = saboteurSeats.has(player.seatIndex);
+    return {
+      ...player,
+      role: isSaboteur ? "Saboteur" : "Crew",
+      job,
+      items: createJobItems(job),
+      sabotage: isSaboteur ? createSabotageTools() : [],
+    };
+  });
+};
+
+export const getReactorLimit = (playerCount: number): number =>
+  Math.round(playerCount * getCachedBalanceConfig().reactorLimitPerPlayer);
 
 export const createInitialRound = (
   index: number,
   players: Player[],
 ): RoundState => {
-  const baseGate = players.length * 4;
-  const offset = GATE_OFFSETS[(index - 1) % GATE_OFFSETS.length];
-  const cardsPlayed: Record<string, number | null> = {};
+  const { gateBasePerPlayer, gateOffsets } = getCachedBalanceConfig();
+  const baseGate = Math.round(players.length * gateBasePerPlayer);
+  const offset = gateOffsets[(index - 1) % gateOffsets.length] ?? 0;
+  const cardsPlayed: Record<string, Card | null> = {};
 
   players.forEach((player) => {
     cardsPlayed[player.id] = null;
@@ -60,10 +115,12 @@ export const createInitialRound = (
     index,
     gate: baseGate + offset,
     cardsPlayed,
+    cardValues: {},
     totalBeforeItems: 0,
     totalAfterItems: 0,
     reactorEnergy01: 0,
     outcome: null,
     minigameResults: [],
+    sabotage: [],
   };
 };
@@ -1,31 +1,144 @@
-import type { Phase } from "../types";
+import type { MatchResult } from "../matchResult";
+import type { Card, Phase } from "../types";
 
 export type GamePhase = Phase;
 
 export type GameEvent =
-  | "START"
-  | "PLAN_LOCK_IN"
-  | "IGNITION_DONE"
-  | "ENGAGE_NEXT"
-  | "MAINTENANCE_RESOLVE"
-  | "RESTART";
-
-const transitions: Record<GamePhase, Partial<Record<GameEvent, GamePhase>>> = {
-  Lobby: { START: "RoleReveal" },
-  RoleReveal: { START: "Plan" },
-  Plan: { PLAN_LOCK_IN: "Ignition" },
-  Ignition: { IGNITION_DONE: "Engage" },
+  | { type: "START" }
+  | { type: "ROLES_REVEALED" }
+  | { type: "PLAN_LOCK_IN"; localCard: Card | null; localEjected: boolean }
+  | { type: "IGNITION_DONE" }
+  | { type: "ENGAGE_NEXT"; activeMinigames: number }
+  /** Ship HP hit 0 while stations were still resolving. */
+  | { type: "HULL_BREACHED" }
+  | {
+      type: "MAINTENANCE_RESOLVE";
+      /** Set once the round's resolution decided the match. */
+      result: MatchResult | null;
+      /** Whether the Lobby turned the Tribunal vote on. */
+      tribunal: boolean;
+    }
+  | { type: "TRIBUNAL_RESOLVE"; result: MatchResult | null }
+  | { type: "RESTART" };
+
+export type GameEventType = GameEvent["type"];
+
+type EventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
+
+type Guard<T extends GameEventType> = {
+  description: string;
+  test: (event: EventOf<T>) => boolean;
+};
+
+type Transition<T extends GameEventType> = {
+  target: GamePhase;
+  guard?: Guard<T>;
+};
+
+type TransitionTable = {
+  [P in GamePhase]: { [T in GameEventType]?: Transition<T>[] };
+};
+
+// Candidates are tried in order; the first one whose guard passes wins.
+const transitions: TransitionTable = {
+  Lobby: { START: [{ target: "RoleReveal" }] },
+  RoleReveal: { ROLES_REVEALED: [{ target: "Plan" }] },
+  Plan: {
+    PLAN_LOCK_IN: [
+      {
+        target: "Ignition",
+        guard: {
+          description: "local card locked or local seat ejected",
+          test: (event) => event.localCard != null || event.localEjected,
+        },
+      },
+    ],
+  },
+  Ignition: { IGNITION_DONE: [{ target: "Engage" }] },
   Engage: {
-    ENGAGE_NEXT: "Maintenance",
+    ENGAGE_NEXT: [
+      {
+        target: "Maintenance",
+        guard: { description: "no station still running", test: (event) => event.activeMinigames === 0 },
+      },
+    ],
+    HULL_BREACHED: [{ target: "GameOver" }],
   },
   Maintenance: {
-    MAINTENANCE_RESOLVE: "Plan",
-    ENGAGE_NEXT: "GameOver",
+    HULL_BREACHED: [{ target: "GameOver" }],
+    MAINTENANCE_RESOLVE: [
+      {
+        target: "GameOver",
+        guard: { description: "match decided", test: (event) => event.result !== null },
+      },
+      {
+        target: "Tribunal",
+        guard: { description: "match continues with a Tribunal", test: (event) => event.result === null && event.tribunal },
+      },
+      {
+        target: "Plan",
+        guard: { description: "match continues", test: (event) => event.result === null && !event.tribunal },
+      },
+    ],
+  },
+  Tribunal: {
+    TRIBUNAL_RESOLVE: [
+      {
+        target: "GameOver",
+        guard: { description: "match decided", test: (event) => event.result !== null },
+      },
+      {
+        target: "Plan",
+        guard: { description: "match continues", test: (event) => event.result === null },
+      },
+    ],
   },
-  GameOver: { RESTART: "Lobby" },
+  GameOver: { RESTART: [{ target: "Lobby" }] },
+};
+
+export type TransitionRejection = {
+  ok: false;
+  from: GamePhase;
+  event: GameEventType;
+  reason: string;
+};
+
+export type TransitionResult =
+  | { ok: true; from: GamePhase; to: GamePhase; event: GameEventType }
+  | TransitionRejection;
+
+/**
+ * Resolves `event` against the transition table. Unknown events and failed
+ * guards are reported instead of being silently ignored.
+ */
+export const transition = (current: GamePhase, event: GameEvent): TransitionResult => {
+  const candidates = transitions[current]?.[event.type] as Transition<typeof event.type>[] | undefined;
+  if (!candidates || candidates.length === 0) {
+    return {
+      ok: false,
+      from: current,
+      event: event.type,
+      reason: `${event.type} is not accepted during ${current}`,
+    };
+  }
+
+  const failed: string[] = [];
+  for (const candidate of candidates) {
+    if (!candidate.guard || candidate.guard.test(event as never)) {
+      return { ok: true, from: current, to: candidate.target, event: event.type };
+    }
+    failed.push(candidate.guard.description);
+  }
+
+  return {
+    ok: false,
+    from: current,
+    event: event.type,
+    reason: `${event.type} rejected during ${current}: guard failed (${failed.join("; ")})`,
+  };
 };
 
-export const nextPhase = (current: Phase, event: string): Phase => {
-  const next = transitions[current]?.[event as GameEvent];
-  return next ?? current;
+export const nextPhase = (current: GamePhase, event: GameEvent): GamePhase => {
+  const result = transition(current, event);
+  return result.ok ? result.to : current;
 };
@@ -0,0 +1,49 @@
+import type { MinigameInputSample, MinigameInputSummary, MinigamePauseSummary, MinigameStats } from "./types";
+
+// What a station run reports beyond its percent. The raw counters are never
+// touched by SPOOF, so a report that disagrees with its own stats is a tell.
+
+export const summarizeInputs = (inputs: MinigameInputSample[], durationMs: number): MinigameInputSummary => {
+  const byKind: MinigameInputSummary["byKind"] = {};
+  let longestGapMs = 0;
+  let previous = 0;
+  inputs.forEach((input) => {
+    byKind[input.kind] = (byKind[input.kind] ?? 0) + 1;
+    longestGapMs = Math.max(longestGapMs, input.t - previous);
+    previous = input.t;
+  });
+  return {
+    count: inputs.length,
+    byKind,
+    firstInputMs: inputs.length > 0 ? inputs[0].t : null,
+    longestGapMs: Math.max(longestGapMs, durationMs - previous),
+  };
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+/** One line for the Maintenance log, e.g. "Patched 7/9 leaks, 2 overflows". */
+export const describeMinigameStats = (stats: MinigameStats): string => {
+  switch (stats.job) {
+    case "PowerEngineer":
+      return `Held the band ${seconds(stats.timeInBandMs)} of ${seconds(stats.durationMs)}`;
+    case "CoolantTech":
+      return `Patched ${stats.patched}/${stats.total} leaks, ${plural(stats.overflow, "overflow")}`;
+    case "FluxSpecialist":
+      return `Stabilized ${stats.stabilized}/${stats.total} spikes, ${stats.missed} missed`;
+    case "HullTechnician":
+      return `Sealed ${stats.sealed}/${stats.total} cracks, ${stats.ruptured} ruptured`;
+  }
+};
+
+export const describeInputSummary = (summary: MinigameInputSummary): string => {
+  if (summary.count === 0) return "No inputs";
+  const first = summary.firstInputMs ?? 0;
+  return `${plural(summary.count, "input")}, first at ${seconds(first)}, longest idle ${seconds(summary.longestGapMs)}`;
+};
+
+/** Null for a run that was never paused. */
+export const describePauses = (pauses: MinigamePauseSummary): string | null =>
+  pauses.count > 0 ? `Paused ${pauses.count}× for ${seconds(pauses.totalMs)}` : null;
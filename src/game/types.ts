@@ -1,8 +1,43 @@
+import type { Job } from "./jobs";
+
 export type Role = "Crew" | "Saboteur";
 
-export type Job = "PowerEngineer" | "CoolantTech" | "FluxSpecialist";
+export { JOBS, type Job } from "./jobs";
+
+export type CardKind = "power" | "coolant" | "wild" | "double" | "null";
 
-export const JOBS: Job[] = ["PowerEngineer", "CoolantTech", "FluxSpecialist"];
+export const SPECIAL_CARD_KINDS = ["coolant", "wild", "double", "null"] as const;
+
+export type Card = {
+  /** Unique within its owner's deck, e.g. `power-7` or `wild-1`. */
+  id: string;
+  kind: CardKind;
+  /**
+   * Face value: the power or coolant amount, a double's multiplier, or a
+   * wild's roll once revealed (0 before). Nulls are always 0.
+   */
+  value: number;
+};
+
+/** How many of each special card a deck holds, and their numbers. */
+export type SpecialCardRules = {
+  coolant: { count: number; value: number };
+  wild: { count: number; min: number; max: number };
+  double: { count: number; multiplier: number };
+  null: { count: number };
+};
+
+/**
+ * What happens to unplayed cards between rounds: kept and topped up to a full
+ * hand, discarded before a fresh draw, or shuffled back into the draw pile.
+ */
+export type HandCarryOver = "keep" | "discard" | "return";
+
+export const HAND_CARRY_OVER_RULES: HandCarryOver[] = ["keep", "discard", "return"];
+
+/** Seats at the table, the local player included. */
+export const CREW_SIZE_MIN = 3;
+export const CREW_SIZE_MAX = 8;
 
 export type Phase =
   | "Lobby"
@@ -11,11 +46,15 @@ export type Phase =
   | "Ignition"
   | "Engage"
   | "Maintenance"
+  | "Tribunal"
   | "GameOver";
 
 export type ItemTiming = "Plan" | "Engage";
 
-export type ItemId = "BOOST" | "VENT" | "EQUALIZER";
+export const ITEM_TIMINGS: ItemTiming[] = ["Plan", "Engage"];
+
+/** Key into the balance config's item catalog. */
+export type ItemId = string;
 
 export type ItemInstance = {
   id: ItemId;
@@ -25,6 +64,70 @@ export type ItemInstance = {
   used: boolean;
 };
 
+/**
+ * Secret tools dealt to saboteurs only, kept apart from the job item catalog.
+ * SURGE adds to the total once items resolve, JAM disables a crew item for
+ * the round and SPOOF misreports one station run in the Maintenance log.
+ */
+export type SabotageToolId = "SURGE" | "JAM" | "SPOOF";
+
+export const SABOTAGE_TOOL_IDS: SabotageToolId[] = ["SURGE", "JAM", "SPOOF"];
+
+/**
+ * Tuning for each tool: uses per match, its strength, and the chance a use
+ * leaves a trace in the Maintenance log.
+ */
+export type SabotageRules = {
+  SURGE: { uses: number; deltaTotal: number; traceChance: number };
+  JAM: { uses: number; traceChance: number };
+  SPOOF: { uses: number; offset: number; traceChance: number };
+};
+
+export type SabotageTool = {
+  id: SabotageToolId;
+  usesLeft: number;
+};
+
+/** One sabotage tool use, recorded on the round it was spent in. */
+export type SabotageUse = {
+  toolId: SabotageToolId;
+  playerId: string;
+  /** The seat a JAM or SPOOF was aimed at. */
+  targetId: string | null;
+  /** The item a JAM disabled. */
+  itemId: ItemId | null;
+  /** Whether the Maintenance log shows it. */
+  traced: boolean;
+};
+
+/**
+ * What ejecting a saboteur at the Tribunal earns the crew: an immediate win
+ * once no saboteur is left aboard, or a bonus every time.
+ */
+export type TribunalReward = "win" | "bonus";
+
+export const TRIBUNAL_REWARDS: TribunalReward[] = ["win", "bonus"];
+
+export type TribunalRules = {
+  saboteurEjected: TribunalReward;
+  /** Bonus for each ejected saboteur: clears added and ship health restored (fraction of max). */
+  bonusClears: number;
+  bonusShip: number;
+};
+
+/** From `minPlayers` seats up, the crew hides `count` saboteurs. */
+export type SaboteurRule = {
+  minPlayers: number;
+  count: number;
+};
+
+/** One Tribunal: each seat's vote (null to skip) and who, if anyone, was ejected. */
+export type TribunalRecord = {
+  roundIndex: number;
+  votes: Record<string, string | null>;
+  ejectedId: string | null;
+};
+
 export type Player = {
   id: string;
   name: string;
@@ -32,18 +135,129 @@ export type Player = {
   role: Role;
   job: Job;
   items: ItemInstance[];
+  /** Empty for the crew. */
+  sabotage: SabotageTool[];
 };
 
 export type MinigameTier = "FAIL" | "PARTIAL" | "SUCCESS";
 
+export const MINIGAME_TIERS: MinigameTier[] = ["FAIL", "PARTIAL", "SUCCESS"];
+
+/**
+ * One row of a job's minigame outcome table. Extra grades such as "PERFECT"
+ * count as one of the three core tiers for item scaling and bonuses.
+ */
+export type MinigameTierRule = {
+  name: string;
+  tier: MinigameTier;
+  /** Lowest percent finished that earns this row. */
+  minPercent: number;
+  deltaTotal: number;
+  /** Ship health change as a fraction of max. */
+  deltaShip: number;
+};
+
+/**
+ * How an item moves the reactor total at full strength: a flat amount, or one
+ * of two amounts depending on whether the total is below the Gate.
+ */
+export type ItemEffectFormula =
+  | { kind: "flat"; deltaTotal: number }
+  | { kind: "gate"; belowGate: number; otherwise: number }
+  // Plan-timed tools reveal information instead of moving the reactor.
+  | { kind: "scan" }
+  | { kind: "redraw" }
+  | { kind: "gateProbe"; spread: number };
+
+export const PLAN_EFFECT_KINDS = ["scan", "redraw", "gateProbe"] as const;
+
+/** Private intel from a Plan item, seen only by the player who used it. */
+export type ItemReveal =
+  | { kind: "scan"; itemId: ItemId; roundIndex: number; targetId: string; card: Card | null }
+  | { kind: "redraw"; itemId: ItemId; roundIndex: number; cards: number }
+  | { kind: "gateProbe"; itemId: ItemId; roundIndex: number; forRound: number; min: number; max: number };
+
+export type ItemDefinition = {
+  name: string;
+  job: Job;
+  timing: ItemTiming;
+  effect: ItemEffectFormula;
+  /** Ship health change (fraction of max) at full strength. */
+  deltaShip: number;
+  tierMultipliers: Record<MinigameTier, number>;
+  shipTierMultipliers: Record<MinigameTier, number>;
+  /**
+   * Length of the condensed job minigame that decides the item's tier. 0
+   * resolves the item instantly at SUCCESS.
+   */
+  skillCheckMs: number;
+  /**
+   * Tooltip text. `{deltaTotal}`, `{belowGate}`, `{otherwise}` and
+   * `{deltaShip}` are replaced with signed values.
+   */
+  description: string;
+  /** SVG path on a 16×16 viewBox and its stroke colour. */
+  icon: { path: string; color: string };
+};
+
 export type MinigameResult = {
   playerId: string;
   job: Job;
-  itemId: ItemId;
+  /** Set when the result came from an item; null for the station run. */
+  itemId: ItemId | null;
   tier: MinigameTier;
+  /** Name of the outcome row reached, e.g. "PERFECT". */
+  grade: string;
   percentFinished: number;
+  /** What Maintenance shows instead when a SPOOF misreported the run. */
+  reportedPercent?: number;
   deltaTotal: number;
   deltaShipHP: number;
+  /** Set for runs played on screen; bot rolls and instant items have none. */
+  telemetry?: MinigameTelemetry;
+};
+
+/**
+ * One player input inside a minigame run, timestamped in ms from its start.
+ */
+export type MinigameInputSample =
+  | { t: number; kind: "steer"; dir: -1 | 0 | 1 }
+  | { t: number; kind: "tap"; x: number; y: number }
+  /** A drag sample, recorded while the pointer is held down. */
+  | { t: number; kind: "trace"; x: number; y: number }
+  /** The pointer was lifted, ending a drag. */
+  | { t: number; kind: "release" };
+
+type MinigameStatsByJob = {
+  PowerEngineer: { timeInBandMs: number; durationMs: number };
+  CoolantTech: { patched: number; overflow: number; total: number };
+  FluxSpecialist: { stabilized: number; missed: number; total: number };
+  HullTechnician: { sealed: number; ruptured: number; total: number };
+};
+
+/** The counters a job's minigame kept during a run, tagged with the job. */
+export type MinigameStats = { [J in Job]: { job: J } & MinigameStatsByJob[J] }[Job];
+
+/** The shape of a run's input timeline, without the samples themselves. */
+export type MinigameInputSummary = {
+  count: number;
+  byKind: Partial<Record<MinigameInputSample["kind"], number>>;
+  /** ms before the first input; null when there was none. */
+  firstInputMs: number | null;
+  /** Longest stretch without input, counting the lead-in and the tail. */
+  longestGapMs: number;
+};
+
+/** Time a run spent frozen, resume countdowns included. */
+export type MinigamePauseSummary = {
+  count: number;
+  totalMs: number;
+};
+
+export type MinigameTelemetry = {
+  stats: MinigameStats;
+  inputs: MinigameInputSummary;
+  pauses: MinigamePauseSummary;
 };
 
 export type RoundOutcome = "Clear" | "Fail" | "Overload" | null;
@@ -51,10 +265,13 @@ export type RoundOutcome = "Clear" | "Fail" | "Overload" | null;
 export type RoundState = {
   index: number;
   gate: number;
-  cardsPlayed: Record<string, number | null>;
+  cardsPlayed: Record<string, Card | null>;
+  /** What each seat's card added to the total once specials resolved. */
+  cardValues: Record<string, number>;
   totalBeforeItems: number;
   totalAfterItems: number;
   reactorEnergy01: number;
   outcome: RoundOutcome;
   minigameResults: MinigameResult[];
+  sabotage: SabotageUse[];
 };
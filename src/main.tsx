@@ -1,10 +1,15 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
+import { loadBalanceConfig } from "./game/config";
 import "./index.css";
 
-ReactDOM.createRoot(document.getElementById("root") as HTMLElement).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+// The engine reads the cached balance config when it builds a match, so the
+// config has to be in place before the first render.
+loadBalanceConfig().then(({ issues }) => {
+  ReactDOM.createRoot(document.getElementById("root") as HTMLElement).render(
+    <React.StrictMode>
+      <App configIssues={issues} />
+    </React.StrictMode>
+  );
+});
@@ -1,7 +1,17 @@
 import React from "react";
 import { getMinigameTier } from "../game/minigame";
-import type { MinigameProps } from "./common";
-import { clamp01 } from "./utils";
+import type { Rng } from "../game/rng";
+import { MinigamePauseButton, type MinigameProps } from "./common";
+import {
+  BASELINE_Y,
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  fluxSpecialistSimulation,
+  HIT_ZONE_HALF_WIDTH,
+  HIT_ZONE_X,
+  type FluxSpecialistState,
+} from "./simulation/fluxSpecialist";
+import { useMinigameLoop, type MinigameRenderer } from "./useMinigameLoop";
 
 // Flux Specialist Minigame — v1.5
 // Update: Reactor Energy now gives the PLAYER-CLICKED SPIKES large, visible
@@ -20,23 +30,14 @@ import { clamp01 } from "./utils";
 // - There is a vertical green stabilization zone.
 // - When a spike passes through the zone, you tap it to "clip" (stabilize) it.
 // - Missed spikes reduce your stability score.
+//
+// Spike motion and scoring live in simulation/fluxSpecialist.ts; this file
+// only draws the state and forwards taps.
 
 const GAME_DURATION_MS = 10000; // 10 seconds
 
-// Spike tuning (baseline)
-const BASE_SPAWN_INTERVAL_MS = 900; // baseline time between spikes
-const BASE_SCROLL_SPEED_PX = 90; // px/sec baseline scroll speed
-const BASE_SPIKE_HEIGHT_PX = 35; // baseline height for spikes
-
-// How erratic spikes get with energy
-const SPIKE_X_JITTER_PER_SEC = 40; // px/sec random X movement at full energy (reduced, swing is main effect)
-const SPIKE_HEIGHT_JITTER_PER_SEC = 40; // px/sec height jitter at full energy
-const MAX_SPIKE_SWING_AMPLITUDE_PX = 80; // max left-right swing at full energy
-const SPIKE_SWING_SPEED = 3.0; // rad/sec base for sinusoidal swing
-
 // Wave tuning: calm backdrop; only lightly influenced by energy
 const BASE_WAVE_AMPLITUDE_PX = 12; // smaller, calmer
-const BASE_WAVE_SPEED = 0.8; // slower
 const BASE_WAVE_JITTER_PX = 2; // minimal random noise
 const BASE_ENDPOINT_DRIFT_PX = 6; // subtle up/down drift
 const BASE_WAVE_X_WOBBLE_PX = 2; // very subtle horizontal wobble
@@ -45,469 +46,205 @@ const BASE_WAVE_X_WOBBLE_PX = 2; // very subtle horizontal wobble
 const MAX_SHAKE_PX = 10;
 const MAX_SPARKS = 10;
 
-// Canvas size
-const CANVAS_WIDTH = 480;
-const CANVAS_HEIGHT = 260;
-
-// Stabilization zone
-const HIT_ZONE_X = CANVAS_WIDTH * 0.35; // x-position of center of hit zone
-const HIT_ZONE_HALF_WIDTH = 22; // tolerance left/right for timing
-const TAP_HIT_RADIUS = 30; // px radius for tap proximity to spike body
-
-type Spike = {
-  x: number; // base X position (scrolls left)
-  renderX: number; // actual on-screen X including swing
-  height: number; // px
-  upwards: boolean; // if true, spike goes up, else down from baseline
-  active: boolean;
-  hit: boolean;
-  phase: number; // per-spike swing phase offset
-};
-export const FluxSpecialistMinigame: React.FC<MinigameProps> = ({
-  reactorEnergy,
-  shipHealth,
-  onComplete,
-}) => {
-  const canvasRef = React.useRef<HTMLCanvasElement | null>(null);
-  const [running, setRunning] = React.useState(false);
-  const [result, setResult] = React.useState<string | null>(null);
-
-  // Game factors normalized
-  const energy01 = clamp01(reactorEnergy);
-  const health01 = clamp01(shipHealth);
-  const damage01 = 1 - health01;
-
-  // ===== Reactor energy → spike behavior =====
-
-  // Spike spawning: from chill (~1600ms) to chaotic (~450ms)
-  const spawnIntervalMs = 1600 - energy01 * 1150; // 1600 .. 450 ms
-
-  // Spike scroll speed: from ~0.7x to ~3x base
-  const scrollSpeedPx = BASE_SCROLL_SPEED_PX * (0.7 + energy01 * 2.3); // ~63 .. ~297 px/sec
-
-  // Spike height baseline slightly scales with energy
-  const spikeHeightBase = BASE_SPIKE_HEIGHT_PX * (0.9 + energy01 * 1.2); // ~0.9x..2.1x
-
-  // ===== Wave behavior → calm backdrop (lightly affected by energy) =====
-
+const drawWave = (ctx: CanvasRenderingContext2D, state: FluxSpecialistState, fxRng: Rng) => {
+  const { energy01, wavePhase } = state;
   const waveAmplitudePx = BASE_WAVE_AMPLITUDE_PX * (0.8 + energy01 * 0.4);
-  const waveSpeed = BASE_WAVE_SPEED * (0.6 + energy01 * 0.8);
   const waveJitterPx = BASE_WAVE_JITTER_PX * (0.8 + energy01 * 0.6);
   const endpointDriftPx = BASE_ENDPOINT_DRIFT_PX * (0.8 + energy01 * 0.6);
   const waveXWobblePx = BASE_WAVE_X_WOBBLE_PX * (0.8 + energy01 * 0.8);
-
   // Wave color from cool cyan at low energy to moderately warmer teal at high energy
   const waveHue = 190 - energy01 * 40; // 190 → 150
-  const waveColor = `hsl(${waveHue}, 100%, 60%)`;
-
-  // Ship damage → VFX
-  const shakeAmplitudePx = damage01 * MAX_SHAKE_PX;
-  const sparkCount = Math.round(damage01 * MAX_SPARKS);
-
-  // Simulation refs
-  const spikesRef = React.useRef<Spike[]>([]);
-  const totalSpikesRef = React.useRef(0);
-  const stabilizedSpikesRef = React.useRef(0);
-  const missedSpikesRef = React.useRef(0);
-
-  // For debug/UI
-  const [lastTapInfo, setLastTapInfo] = React.useState<string | null>(null);
-
-  const handlePointerDown = (
-    e: React.PointerEvent<HTMLCanvasElement>
-  ): void => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
 
-    setLastTapInfo(`x=${x.toFixed(0)}, y=${y.toFixed(0)}`);
-
-    const spikes = spikesRef.current;
-    const baselineY = CANVAS_HEIGHT * 0.6;
-
-    // Find the closest spike that is currently near the hit zone and not yet hit
-    let bestIndex = -1;
-    let bestDistSq = Infinity;
+  const marginX = 24;
+  const innerWidth = CANVAS_WIDTH - marginX * 2;
 
-    for (let i = 0; i < spikes.length; i++) {
-      const spike = spikes[i];
-      if (!spike.active || spike.hit) continue;
+  // Endpoint offsets depend on time and reactor energy (subtle)
+  const t = state.elapsedMs / 1000;
+  const leftOffset = Math.sin(t * (0.4 + energy01 * 0.6)) * endpointDriftPx;
+  const rightOffset = Math.sin(t * (0.6 + energy01 * 0.4) + 1.7) * endpointDriftPx;
 
-      const centerX = spike.renderX; // use rendered X including swing
+  const segments = 64;
+  ctx.beginPath();
+  for (let i = 0; i < segments; i++) {
+    const tNorm = i / (segments - 1);
 
-      // Only consider spikes within the timing window
-      if (Math.abs(centerX - HIT_ZONE_X) > HIT_ZONE_HALF_WIDTH) continue;
+    // Base X along the line, with a mild horizontal wobble
+    const xBase = marginX + tNorm * innerWidth;
+    const wobblePhase = wavePhase * 0.4 + t * 0.7 + tNorm * Math.PI * 2;
+    const x = xBase + Math.sin(wobblePhase) * waveXWobblePx;
 
-      // Approximate spike's center for tap detection
-      const tipY = spike.upwards
-        ? baselineY - spike.height
-        : baselineY + spike.height;
-      const centerY = (baselineY + tipY) / 2;
+    // Blend endpoint offsets for vertical baseline
+    const baseLine = BASELINE_Y + leftOffset + (rightOffset - leftOffset) * tNorm;
 
-      const dx = centerX - x;
-      const dy = centerY - y;
-      const distSq = dx * dx + dy * dy;
-      if (distSq <= TAP_HIT_RADIUS * TAP_HIT_RADIUS && distSq < bestDistSq) {
-        bestDistSq = distSq;
-        bestIndex = i;
-      }
-    }
+    // Core wave shape plus small noise
+    const waveValue = Math.sin(tNorm * Math.PI * 4 + wavePhase) * waveAmplitudePx;
+    const jitter = (fxRng.next() - 0.5) * 2 * waveJitterPx;
 
-    if (bestIndex >= 0) {
-      const spike = spikes[bestIndex];
-      spike.hit = true;
-      stabilizedSpikesRef.current += 1;
+    const y = baseLine + waveValue + jitter;
+    if (i === 0) {
+      ctx.moveTo(x, y);
+    } else {
+      ctx.lineTo(x, y);
     }
-  };
+  }
+  ctx.strokeStyle = `hsl(${waveHue}, 100%, 60%)`;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+};
 
-  const handlePointerUp = (): void => {
-    // No continuous input needed; taps are discrete.
-  };
+const renderFluxSpecialist: MinigameRenderer<FluxSpecialistState> = (ctx, state, fxRng) => {
+  const w = CANVAS_WIDTH;
+  const h = CANVAS_HEIGHT;
+  const damage01 = 1 - state.health01;
+  const shakeAmplitudePx = damage01 * MAX_SHAKE_PX;
+  const sparkCount = Math.round(damage01 * MAX_SPARKS);
 
-  const handleStart = React.useCallback(() => {
-    const canvas = canvasRef.current;
-    if (canvas) {
-      const ctx = canvas.getContext("2d");
-      ctx?.clearRect(0, 0, canvas.width, canvas.height);
-    }
-    spikesRef.current = [];
-    totalSpikesRef.current = 0;
-    stabilizedSpikesRef.current = 0;
-    missedSpikesRef.current = 0;
-    setResult(null);
-    setLastTapInfo(null);
-    setRunning(true);
-  }, []);
-
-  React.useEffect(() => {
-    if (!running) return;
-
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-
-    // Reset state
-    spikesRef.current = [];
-    totalSpikesRef.current = 0;
-    stabilizedSpikesRef.current = 0;
-    missedSpikesRef.current = 0;
-
-    let startTime = performance.now();
-    let lastTime = startTime;
-    let timeSinceSpawn = 0;
-    let stopped = false;
-    let animationFrameId: number;
-
-    const baselineY = CANVAS_HEIGHT * 0.6;
-    let wavePhase = 0; // controls overall wave motion
-
-    const drawWave = (elapsedSec: number) => {
-      const w = CANVAS_WIDTH;
-      const marginX = 24;
-      const innerWidth = w - marginX * 2;
-
-      // Endpoint offsets depend on time and reactor energy (subtle)
-      const t = elapsedSec;
-      const leftOffset = Math.sin(t * (0.4 + energy01 * 0.6)) * endpointDriftPx;
-      const rightOffset =
-        Math.sin(t * (0.6 + energy01 * 0.4) + 1.7) * endpointDriftPx;
-
-      const segments = 64;
+  ctx.clearRect(0, 0, w, h);
+
+  // Screen shake
+  const shakeX = shakeAmplitudePx ? (fxRng.next() - 0.5) * 2 * shakeAmplitudePx : 0;
+  const shakeY = shakeAmplitudePx ? (fxRng.next() - 0.5) * 2 * shakeAmplitudePx : 0;
+
+  ctx.save();
+  ctx.translate(shakeX, shakeY);
+
+  // Background
+  ctx.fillStyle = "#020617"; // slate-950
+  ctx.fillRect(0, 0, w, h);
+
+  // Baseline
+  ctx.strokeStyle = "#1f2937"; // gray-800
+  ctx.lineWidth = 4;
+  ctx.beginPath();
+  ctx.moveTo(24, BASELINE_Y);
+  ctx.lineTo(w - 24, BASELINE_Y);
+  ctx.stroke();
+
+  // Flux wave (mostly calm backdrop)
+  drawWave(ctx, state, fxRng);
+
+  // Hit zone (vertical band)
+  ctx.fillStyle = "rgba(16, 185, 129, 0.12)"; // emerald-500 alpha
+  ctx.fillRect(HIT_ZONE_X - HIT_ZONE_HALF_WIDTH, BASELINE_Y - 80, HIT_ZONE_HALF_WIDTH * 2, 160);
+  ctx.strokeStyle = "#10b981"; // emerald-500
+  ctx.lineWidth = 2;
+  ctx.strokeRect(HIT_ZONE_X - HIT_ZONE_HALF_WIDTH, BASELINE_Y - 80, HIT_ZONE_HALF_WIDTH * 2, 160);
+
+  // Draw spikes (now with wide swing behavior)
+  for (const spike of state.spikes) {
+    if (!spike.active) continue;
+
+    const x = spike.renderX;
+    const tipY = spike.upwards ? BASELINE_Y - spike.height : BASELINE_Y + spike.height;
+
+    // Trail / glow
+    ctx.strokeStyle = spike.hit ? "#22c55e" : "#f97316"; // green if hit, orange otherwise
+    ctx.lineWidth = spike.hit ? 3 : 2;
+    ctx.beginPath();
+    ctx.moveTo(x, BASELINE_Y);
+    ctx.lineTo(x, tipY);
+    ctx.stroke();
+
+    // Tip orb
+    ctx.beginPath();
+    ctx.arc(x, tipY, spike.hit ? 6 : 5, 0, Math.PI * 2);
+    ctx.fillStyle = spike.hit ? "#bbf7d0" : "#fed7aa"; // soft green / orange
+    ctx.fill();
+  }
+
+  // Sparks / arcs based on damage
+  if (sparkCount > 0) {
+    ctx.strokeStyle = "#facc15"; // yellow
+    ctx.lineWidth = 2;
+    for (let i = 0; i < sparkCount; i++) {
+      const sx = 24 + fxRng.next() * (w - 48);
+      const sy = BASELINE_Y + (fxRng.next() - 0.5) * 120;
+      const ex = sx + (fxRng.next() - 0.5) * 30;
+      const ey = sy + (fxRng.next() - 0.5) * 30;
       ctx.beginPath();
-      for (let i = 0; i < segments; i++) {
-        const tNorm = i / (segments - 1);
-
-        // Base X along the line
-        const xBase = marginX + tNorm * innerWidth;
-
-        // Mild horizontal wobble
-        const wobblePhase = wavePhase * 0.4 + t * 0.7 + tNorm * Math.PI * 2;
-        const xWobble = Math.sin(wobblePhase) * waveXWobblePx;
-        const x = xBase + xWobble;
-
-        // Blend endpoint offsets for vertical baseline
-        const endpointBlend = leftOffset + (rightOffset - leftOffset) * tNorm;
-        const baseLine = baselineY + endpointBlend;
-
-        // Core wave shape
-        const waveValue =
-          Math.sin(tNorm * Math.PI * 4 + wavePhase) * waveAmplitudePx;
-
-        // Jitter (small noise)
-        const jitter = (Math.random() - 0.5) * 2 * waveJitterPx;
-
-        const y = baseLine + waveValue + jitter;
-
-        if (i === 0) {
-          ctx.moveTo(x, y);
-        } else {
-          ctx.lineTo(x, y);
-        }
-      }
-      ctx.strokeStyle = waveColor;
-      ctx.lineWidth = 2;
+      ctx.moveTo(sx, sy);
+      ctx.lineTo(ex, ey);
       ctx.stroke();
-    };
-
-    const drawFrame = (remainingMs: number, elapsedSec: number) => {
-      const w = CANVAS_WIDTH;
-      const h = CANVAS_HEIGHT;
+    }
+  }
 
-      ctx.clearRect(0, 0, w, h);
+  // HUD
+  ctx.fillStyle = "#e5e7eb"; // gray-200
+  ctx.font = "16px system-ui, -apple-system, BlinkMacSystemFont, 'Inter', sans-serif";
+  ctx.textAlign = "left";
 
-      // Screen shake
-      const shakeX = shakeAmplitudePx
-        ? (Math.random() - 0.5) * 2 * shakeAmplitudePx
-        : 0;
-      const shakeY = shakeAmplitudePx
-        ? (Math.random() - 0.5) * 2 * shakeAmplitudePx
-        : 0;
+  const secondsLeft = Math.max(0, state.durationMs - state.elapsedMs) / 1000;
+  ctx.fillText(`Time Left: ${secondsLeft.toFixed(1)}s`, 16, 26);
 
-      ctx.save();
-      ctx.translate(shakeX, shakeY);
+  const pct = fluxSpecialistSimulation.percent(state);
+  ctx.fillText(`Flux Stability: ${pct}% spikes stabilized`, 16, 48);
+  ctx.fillText(`Stabilized: ${state.stabilized}  Missed: ${state.missed}`, 16, 70);
 
-      // Background
-      ctx.fillStyle = "#020617"; // slate-950
-      ctx.fillRect(0, 0, w, h);
+  ctx.fillText(
+    `Reactor: ${(state.energy01 * 100).toFixed(0)}%  Hull: ${(state.health01 * 100).toFixed(0)}%`,
+    16,
+    92
+  );
 
-      // Baseline
-      ctx.strokeStyle = "#1f2937"; // gray-800
-      ctx.lineWidth = 4;
-      ctx.beginPath();
-      ctx.moveTo(24, baselineY);
-      ctx.lineTo(w - 24, baselineY);
-      ctx.stroke();
+  ctx.textAlign = "right";
+  ctx.fillText("Tap spikes in the green zone", w - 16, 26);
 
-      // Flux wave (mostly calm backdrop)
-      drawWave(elapsedSec);
-
-      // Hit zone (vertical band)
-      ctx.fillStyle = "rgba(16, 185, 129, 0.12)"; // emerald-500 alpha
-      ctx.fillRect(
-        HIT_ZONE_X - HIT_ZONE_HALF_WIDTH,
-        baselineY - 80,
-        HIT_ZONE_HALF_WIDTH * 2,
-        160
-      );
-      ctx.strokeStyle = "#10b981"; // emerald-500
-      ctx.lineWidth = 2;
-      ctx.strokeRect(
-        HIT_ZONE_X - HIT_ZONE_HALF_WIDTH,
-        baselineY - 80,
-        HIT_ZONE_HALF_WIDTH * 2,
-        160
-      );
-
-      // Draw spikes (now with wide swing behavior)
-      const spikes = spikesRef.current;
-      for (const spike of spikes) {
-        if (!spike.active) continue;
-
-        const x = spike.renderX;
-        const height = spike.height;
-        const tipY = spike.upwards ? baselineY - height : baselineY + height;
-
-        // Trail / glow
-        ctx.strokeStyle = spike.hit ? "#22c55e" : "#f97316"; // green if hit, orange otherwise
-        ctx.lineWidth = spike.hit ? 3 : 2;
-        ctx.beginPath();
-        ctx.moveTo(x, baselineY);
-        ctx.lineTo(x, tipY);
-        ctx.stroke();
-
-        // Tip orb
-        ctx.beginPath();
-        ctx.arc(x, tipY, spike.hit ? 6 : 5, 0, Math.PI * 2);
-        ctx.fillStyle = spike.hit ? "#bbf7d0" : "#fed7aa"; // soft green / orange
-        ctx.fill();
-      }
+  ctx.restore();
+};
 
-      // Sparks / arcs based on damage
-      if (sparkCount > 0) {
-        ctx.strokeStyle = "#facc15"; // yellow
-        ctx.lineWidth = 2;
-        for (let i = 0; i < sparkCount; i++) {
-          const sx = 24 + Math.random() * (w - 48);
-          const sy = baselineY + (Math.random() - 0.5) * 120;
-          const ex = sx + (Math.random() - 0.5) * 30;
-          const ey = sy + (Math.random() - 0.5) * 30;
-          ctx.beginPath();
-          ctx.moveTo(sx, sy);
-          ctx.lineTo(ex, ey);
-          ctx.stroke();
-        }
-      }
+export const FluxSpecialistMinigame: React.FC<MinigameProps> = ({
+  reactorEnergy,
+  shipHealth,
+  rng,
+  clock,
+  durationMs = GAME_DURATION_MS,
+  hold,
+  onComplete,
+}) => {
+  const canvasRef = React.useRef<HTMLCanvasElement | null>(null);
+  const [result, setResult] = React.useState<string | null>(null);
 
-      // HUD
-      ctx.fillStyle = "#e5e7eb"; // gray-200
-      ctx.font =
-        "16px system-ui, -apple-system, BlinkMacSystemFont, 'Inter', sans-serif";
-      ctx.textAlign = "left";
-
-      const secondsLeft = Math.max(0, remainingMs) / 1000;
-      ctx.fillText(`Time Left: ${secondsLeft.toFixed(1)}s`, 16, 26);
-
-      const total = totalSpikesRef.current || 1;
-      const stabilized = stabilizedSpikesRef.current;
-      const missed = missedSpikesRef.current;
-      const ratio = stabilized / total;
-      const pct = Math.round(ratio * 100);
-
-      ctx.fillText(`Flux Stability: ${pct}% spikes stabilized`, 16, 48);
-      ctx.fillText(`Stabilized: ${stabilized}  Missed: ${missed}`, 16, 70);
-
-      ctx.fillText(
-        `Reactor: ${(energy01 * 100).toFixed(0)}%  Hull: ${(health01 * 100).toFixed(0)}%`,
-        16,
-        92
-      );
-
-      ctx.textAlign = "right";
-      ctx.fillText("Tap spikes in the green zone", w - 16, 26);
-
-      ctx.restore();
-    };
-
-    const step = (now: number) => {
-      if (stopped) return;
-
-      const dtMs = now - lastTime;
-      lastTime = now;
-      const dtSec = dtMs / 1000;
-
-      const elapsedMs = now - startTime;
-      const remaining = Math.max(GAME_DURATION_MS - elapsedMs, 0);
-      const elapsedSec = elapsedMs / 1000;
-
-      const spikes = spikesRef.current;
-
-      // Advance wave phase (gentle motion)
-      wavePhase += waveSpeed * dtSec;
-
-      // Move spikes and apply energy-driven swing + jitter
-      const swingAmp = MAX_SPIKE_SWING_AMPLITUDE_PX * energy01;
-      const swingSpeed = SPIKE_SWING_SPEED * (0.6 + energy01 * 1.4);
-
-      for (const spike of spikes) {
-        if (!spike.active) continue;
-
-        // Base leftward scroll
-        spike.x -= scrollSpeedPx * dtSec;
-
-        // Erratic horizontal jitter (scaled by energy)
-        const jitterX =
-          (Math.random() - 0.5) * 2 * SPIKE_X_JITTER_PER_SEC * energy01 * dtSec;
-        spike.x += jitterX;
-
-        // Height jitter (tip wobble up/down)
-        const dHeight =
-          (Math.random() - 0.5) * 2 * SPIKE_HEIGHT_JITTER_PER_SEC * energy01 * dtSec;
-        const minHeight = BASE_SPIKE_HEIGHT_PX * 0.5;
-        const maxHeight = spikeHeightBase * 2.3;
-        spike.height = Math.max(minHeight, Math.min(maxHeight, spike.height + dHeight));
-
-        // Sinusoidal left-right swing around the base X
-        const phase = spike.phase + elapsedSec * swingSpeed;
-        spike.renderX = spike.x + Math.sin(phase) * swingAmp;
-
-        // If it has moved fully off-screen on the left (considering swing), count miss if not hit
-        if (spike.x + swingAmp < -40) {
-          spike.active = false;
-          if (!spike.hit) {
-            missedSpikesRef.current += 1;
-          }
-        }
-      }
+  // For debug/UI
+  const [lastTapInfo, setLastTapInfo] = React.useState<string | null>(null);
 
-      // Spawn new spikes
-      timeSinceSpawn += dtMs;
-      while (timeSinceSpawn >= spawnIntervalMs) {
-        timeSinceSpawn -= spawnIntervalMs;
-
-        const marginRight = 40;
-        const spawnX = CANVAS_WIDTH + marginRight;
-        const upwards = Math.random() < 0.5;
-
-        const heightVariation = spikeHeightBase * 0.5;
-        const baseHeight = spikeHeightBase * 0.7;
-        const height = baseHeight + Math.random() * heightVariation; // some variability
-
-        const phase = Math.random() * Math.PI * 2; // random swing phase per spike
-
-        spikes.push({
-          x: spawnX,
-          renderX: spawnX,
-          height,
-          upwards,
-          active: true,
-          hit: false,
-          phase,
-        });
-        totalSpikesRef.current += 1;
+  const { running, paused, resuming, start, queueInput, pause, resume } = useMinigameLoop({
+    simulation: fluxSpecialistSimulation,
+    render: renderFluxSpecialist,
+    canvasRef,
+    rng,
+    clock,
+    hold,
+    reactorEnergy,
+    shipHealth,
+    durationMs,
+    onFinish: (state, inputs, telemetry, params) => {
+      const pct = fluxSpecialistSimulation.percent(state);
+      const { missed } = state;
+      const tier = getMinigameTier("FluxSpecialist", pct);
+      if (tier === "SUCCESS" && missed === 0) {
+        setResult(`SUCCESS: ${pct}% spikes stabilized (0 missed) — +1 Stability, ±2 Equalizer bonus.`);
+      } else if (tier !== "FAIL" && missed <= 3) {
+        setResult(`PARTIAL: ${pct}% spikes stabilized (${missed} missed) — +1 Stability.`);
+      } else {
+        setResult(`FAIL: ${pct}% spikes stabilized (${missed} missed) — 0 Stability.`);
       }
+      onComplete(pct, inputs, telemetry, params);
+    },
+  });
 
-      drawFrame(remaining, elapsedSec);
-
-      // End condition
-      if (remaining <= 0) {
-        const total = totalSpikesRef.current;
-        const stabilized = stabilizedSpikesRef.current;
-        const missed = missedSpikesRef.current;
-        const safeTotal = total || 1;
-        const ratio = clamp01(stabilized / safeTotal);
-        const pct = Math.round(ratio * 100);
-
-        let outcome: string;
-        const tier = getMinigameTier(pct);
-        if (tier === "SUCCESS" && missed === 0) {
-          outcome = `SUCCESS: ${pct}% spikes stabilized (0 missed) — +1 Stability, ±2 Equalizer bonus.`;
-        } else if (tier !== "FAIL" && missed <= 3) {
-          outcome = `PARTIAL: ${pct}% spikes stabilized (${missed} missed) — +1 Stability.`;
-        } else {
-          outcome = `FAIL: ${pct}% spikes stabilized (${missed} missed) — 0 Stability.`;
-        }
-
-        if (!stopped) {
-          setResult(outcome);
-          setRunning(false);
-          onComplete(pct);
-        }
-        return;
-      }
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>): void => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    queueInput({ kind: "tap", x: Math.round(x), y: Math.round(y) });
+    setLastTapInfo(`x=${x.toFixed(0)}, y=${y.toFixed(0)}`);
+  };
 
-      animationFrameId = requestAnimationFrame(step);
-    };
-
-    // Initial draw
-    drawFrame(GAME_DURATION_MS, 0);
-    animationFrameId = requestAnimationFrame(step);
-
-    return () => {
-      stopped = true;
-      cancelAnimationFrame(animationFrameId);
-    };
-  }, [
-    running,
-    energy01,
-    health01,
-    damage01,
-    spawnIntervalMs,
-    scrollSpeedPx,
-    spikeHeightBase,
-    waveAmplitudePx,
-    waveSpeed,
-    waveJitterPx,
-    endpointDriftPx,
-    waveXWobblePx,
-    shakeAmplitudePx,
-    sparkCount,
-    waveColor,
-    onComplete,
-  ]);
+  const handleStart = React.useCallback(() => {
+    setResult(null);
+    setLastTapInfo(null);
+    start();
+  }, [start]);
 
   return (
     <div className="w-full flex flex-col items-center gap-4 p-4 bg-slate-900 text-slate-100 rounded-2xl shadow-lg max-w-xl mx-auto">
@@ -523,26 +260,24 @@ export const FluxSpecialistMinigame: React.FC<MinigameProps> = ({
         electrical noise.
       </p>
       <div className="border border-slate-700 rounded-xl overflow-hidden bg-black touch-none">
-        <canvas
-          ref={canvasRef}
-          width={CANVAS_WIDTH}
-          height={CANVAS_HEIGHT}
-          onPointerDown={handlePointerDown}
-          onPointerUp={handlePointerUp}
-          onPointerLeave={handlePointerUp}
-        />
+        <canvas ref={canvasRef} width={CANVAS_WIDTH} height={CANVAS_HEIGHT} onPointerDown={handlePointerDown} />
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={handleStart}
+          disabled={running}
+          className={`px-4 py-2 rounded-lg text-sm font-medium border transition ${
+            running
+              ? "bg-slate-700 border-slate-600 text-slate-300 cursor-not-allowed"
+              : "bg-emerald-600 border-emerald-500 hover:bg-emerald-500"
+          }`}
+        >
+          {running ? "Stabilizing..." : "Start"}
+        </button>
+        {running && (
+          <MinigamePauseButton paused={paused} resuming={resuming} onPause={pause} onResume={resume} />
+        )}
       </div>
-      <button
-        onClick={handleStart}
-        disabled={running}
-        className={`px-4 py-2 rounded-lg text-sm font-medium border transition ${
-          running
-            ? "bg-slate-700 border-slate-600 text-slate-300 cursor-not-allowed"
-            : "bg-emerald-600 border-emerald-500 hover:bg-emerald-500"
-        }`}
-      >
-        {running ? "Stabilizing..." : "Start"}
-      </button>
       {lastTapInfo && (
         <div className="text-xs text-slate-400 mt-1">Last tap: {lastTapInfo}</div>
       )}
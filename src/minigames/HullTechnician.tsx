@@ -0,0 +1,276 @@
+import React from "react";
+import { getMinigameTier } from "../game/minigame";
+import { MinigamePauseButton, type MinigameProps } from "./common";
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  hullTechnicianSimulation,
+  PLATE_BOUNDS,
+  WELD_REACH_PX,
+  type HullTechnicianState,
+  type Point,
+} from "./simulation/hullTechnician";
+import { useMinigameLoop, type MinigameRenderer } from "./useMinigameLoop";
+
+// Hull Technician Minigame — v1
+// - Cracks open across a hull plate and creep outward from their origin.
+// - Press and drag along a crack, origin first, to weld it shut.
+// - A crack is sealed once the weld reaches its tip; a crack that grows too
+//   long ruptures and counts against you.
+//
+// Tuning via game factors:
+//   reactorEnergy: 0..1  (0 = low, 1 = dangerously high)
+//     - Controls crack spawn interval & creep speed.
+//   shipHealth:    0..1  (1 = perfect, 0 = critical)
+//     - Longer cracks on arrival, screen shake & sparks.
+//
+// Crack growth and welding live in simulation/hullTechnician.ts; this file
+// only draws the state and forwards the drag.
+
+const GAME_DURATION_MS = 10000; // 10 seconds
+
+// Visual / feel tuning
+const MAX_SHAKE_PX = 10;
+const MAX_SPARKS = 10;
+const TRACE_MIN_MOVE_PX = 4; // smaller drags are not worth a sample
+
+const renderHullTechnician: MinigameRenderer<HullTechnicianState> = (ctx, state, fxRng) => {
+  const w = CANVAS_WIDTH;
+  const h = CANVAS_HEIGHT;
+  const { minX, maxX, minY, maxY } = PLATE_BOUNDS;
+  const damage01 = 1 - state.health01;
+  const shakeAmplitudePx = damage01 * MAX_SHAKE_PX;
+  const sparkCount = Math.round(damage01 * MAX_SPARKS);
+
+  ctx.clearRect(0, 0, w, h);
+
+  // Screen shake based on damage
+  const shakeX = shakeAmplitudePx ? (fxRng.next() - 0.5) * 2 * shakeAmplitudePx : 0;
+  const shakeY = shakeAmplitudePx ? (fxRng.next() - 0.5) * 2 * shakeAmplitudePx : 0;
+
+  ctx.save();
+  ctx.translate(shakeX, shakeY);
+
+  // Background and hull plate
+  ctx.fillStyle = "#020617"; // slate-950
+  ctx.fillRect(0, 0, w, h);
+  ctx.fillStyle = "#1e293b"; // slate-800
+  ctx.fillRect(minX - 12, minY - 12, maxX - minX + 24, maxY - minY + 24);
+
+  // Rivets along the plate edge
+  ctx.fillStyle = "#475569"; // slate-600
+  for (let x = minX; x <= maxX; x += 32) {
+    ctx.beginPath();
+    ctx.arc(x, minY - 6, 2.5, 0, Math.PI * 2);
+    ctx.arc(x, maxY + 6, 2.5, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  // Cracks: raw fracture in orange, welded length in bright white-blue
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  for (const crack of state.cracks) {
+    if (crack.state === "sealed") {
+      ctx.strokeStyle = "rgba(148, 163, 184, 0.35)"; // slate-400 seam
+      ctx.lineWidth = 3;
+    } else if (crack.state === "ruptured") {
+      ctx.strokeStyle = "#7f1d1d"; // red-900
+      ctx.lineWidth = 6;
+    } else {
+      ctx.strokeStyle = "#fb923c"; // orange-400
+      ctx.lineWidth = 3;
+    }
+    ctx.beginPath();
+    crack.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.stroke();
+
+    if (crack.state !== "open") continue;
+
+    if (crack.welded > 0) {
+      ctx.strokeStyle = "#e0f2fe"; // sky-100
+      ctx.lineWidth = 4;
+      ctx.beginPath();
+      crack.points.slice(0, crack.welded + 1).forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.stroke();
+    }
+
+    // Mark where the weld has to pick up next
+    const next = crack.points[crack.welded];
+    ctx.beginPath();
+    ctx.arc(next.x, next.y, 5, 0, Math.PI * 2);
+    ctx.fillStyle = "#fde68a"; // amber-200
+    ctx.fill();
+  }
+
+  // Torch glow under the pointer
+  if (state.pointer) {
+    ctx.beginPath();
+    ctx.arc(state.pointer.x, state.pointer.y, WELD_REACH_PX, 0, Math.PI * 2);
+    ctx.fillStyle = "rgba(125, 211, 252, 0.2)"; // sky-300 with alpha
+    ctx.fill();
+  }
+
+  // Sparks / electrical arcs (ship damage)
+  if (sparkCount > 0) {
+    ctx.strokeStyle = "#facc15"; // yellow
+    ctx.lineWidth = 2;
+    for (let i = 0; i < sparkCount; i++) {
+      const sx = minX + fxRng.next() * (maxX - minX);
+      const sy = minY + fxRng.next() * (maxY - minY);
+      const ex = sx + (fxRng.next() - 0.5) * 30;
+      const ey = sy + (fxRng.next() - 0.5) * 30;
+      ctx.beginPath();
+      ctx.moveTo(sx, sy);
+      ctx.lineTo(ex, ey);
+      ctx.stroke();
+    }
+  }
+
+  // HUD
+  ctx.fillStyle = "#e5e7eb"; // gray-200
+  ctx.font = "16px system-ui, -apple-system, BlinkMacSystemFont, 'Inter', sans-serif";
+  ctx.textAlign = "left";
+
+  const secondsLeft = Math.max(0, state.durationMs - state.elapsedMs) / 1000;
+  ctx.fillText(`Time Left: ${secondsLeft.toFixed(1)}s`, 16, 26);
+
+  const pct = hullTechnicianSimulation.percent(state);
+  ctx.fillText(`Hull Integrity: ${pct}% cracks sealed`, 16, 48);
+  ctx.fillText(`Sealed: ${state.sealed}  Ruptured: ${state.ruptured}`, 16, 70);
+
+  ctx.textAlign = "right";
+  ctx.fillText("Drag along cracks to weld", w - 16, 26);
+  ctx.fillText(
+    `Reactor: ${(state.energy01 * 100).toFixed(0)}%  Hull: ${(state.health01 * 100).toFixed(0)}%`,
+    w - 16,
+    48
+  );
+
+  ctx.restore();
+};
+
+export const HullTechnicianMinigame: React.FC<MinigameProps> = ({
+  reactorEnergy,
+  shipHealth,
+  rng,
+  clock,
+  durationMs = GAME_DURATION_MS,
+  hold,
+  onComplete,
+}) => {
+  const canvasRef = React.useRef<HTMLCanvasElement | null>(null);
+  const [result, setResult] = React.useState<string | null>(null);
+
+  // Last queued drag point; null while the pointer is up.
+  const dragRef = React.useRef<Point | null>(null);
+
+  const { running, paused, resuming, start, queueInput, pause, resume } = useMinigameLoop({
+    simulation: hullTechnicianSimulation,
+    render: renderHullTechnician,
+    canvasRef,
+    rng,
+    clock,
+    hold,
+    reactorEnergy,
+    shipHealth,
+    durationMs,
+    onFinish: (state, inputs, telemetry, params) => {
+      dragRef.current = null;
+      const pct = hullTechnicianSimulation.percent(state);
+      const { ruptured } = state;
+      const tier = getMinigameTier("HullTechnician", pct);
+      if (tier === "SUCCESS" && ruptured === 0) {
+        setResult(`SUCCESS: ${pct}% cracks sealed (0 ruptured) — hull reinforced.`);
+      } else if (tier !== "FAIL") {
+        setResult(`PARTIAL: ${pct}% cracks sealed (${ruptured} ruptured) — hull holding.`);
+      } else {
+        setResult(`FAIL: ${pct}% cracks sealed (${ruptured} ruptured) — hull weakened.`);
+      }
+      onComplete(pct, inputs, telemetry, params);
+    },
+  });
+
+  // A drag cut short by a pause is over; lift the torch once the run resumes.
+  React.useEffect(() => {
+    if (paused) {
+      dragRef.current = null;
+    } else {
+      queueInput({ kind: "release" });
+    }
+  }, [paused, queueInput]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: Math.round(e.clientX - rect.left), y: Math.round(e.clientY - rect.top) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>): void => {
+    const point = toCanvasPoint(e);
+    dragRef.current = point;
+    queueInput({ kind: "trace", ...point });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>): void => {
+    const last = dragRef.current;
+    if (!last) return;
+    const point = toCanvasPoint(e);
+    if (Math.hypot(point.x - last.x, point.y - last.y) < TRACE_MIN_MOVE_PX) return;
+    dragRef.current = point;
+    queueInput({ kind: "trace", ...point });
+  };
+
+  const handlePointerUp = (): void => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    queueInput({ kind: "release" });
+  };
+
+  const handleStart = React.useCallback(() => {
+    dragRef.current = null;
+    setResult(null);
+    start();
+  }, [start]);
+
+  return (
+    <div className="w-full flex flex-col items-center gap-4 p-4 bg-slate-900 text-slate-100 rounded-2xl shadow-lg max-w-xl mx-auto">
+      <h2 className="text-xl font-semibold tracking-tight">Hull Technician Minigame — Crack Welding (v1)</h2>
+      <p className="text-sm text-slate-300 text-center max-w-lg">
+        Cracks open across the hull plate and creep outward. Press at a crack's marked end and drag along it to weld
+        it shut before it ruptures. Reactor energy opens cracks faster and makes them creep quicker, while ship damage
+        opens them longer and adds shake and sparks.
+      </p>
+      <div className="border border-slate-700 rounded-xl overflow-hidden bg-black touch-none">
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_WIDTH}
+          height={CANVAS_HEIGHT}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        />
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={handleStart}
+          disabled={running}
+          className={`px-4 py-2 rounded-lg text-sm font-medium border transition ${
+            running
+              ? "bg-slate-700 border-slate-600 text-slate-300 cursor-not-allowed"
+              : "bg-emerald-600 border-emerald-500 hover:bg-emerald-500"
+          }`}
+        >
+          {running ? "Welding..." : "Start"}
+        </button>
+        {running && (
+          <MinigamePauseButton paused={paused} resuming={resuming} onPause={pause} onResume={resume} />
+        )}
+      </div>
+      {result && (
+        <div className="text-sm text-center bg-slate-800/70 border border-slate-700 rounded-lg px-3 py-2 w-full">
+          {result}
+        </div>
+      )}
+    </div>
+  );
+};
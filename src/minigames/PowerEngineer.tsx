@@ -1,7 +1,14 @@
 import React from "react";
 import { getMinigameTier } from "../game/minigame";
-import type { MinigameProps } from "./common";
-import { clamp01 } from "./utils";
+import { MinigamePauseButton, type MinigameProps } from "./common";
+import {
+  BAND_HALF_WIDTH,
+  getBandCenter,
+  powerEngineerSimulation,
+  type PowerEngineerState,
+  type SteerDir,
+} from "./simulation/powerEngineer";
+import { useMinigameLoop, type MinigameRenderer } from "./useMinigameLoop";
 
 // Power Engineer Minigame — v3
 // - Smooth inertial movement (velocity + friction)
@@ -16,77 +23,192 @@ import { clamp01 } from "./utils";
 //   - Needle acceleration & erratic movement (reactorEnergy)
 //   - Band speed (reactorEnergy)
 //   - Screen shake & VFX like sparks/arcs (shipHealth)
+//
+// Physics and scoring live in simulation/powerEngineer.ts; this file only
+// draws the state and turns pointer and key presses into steer inputs.
 
 const GAME_DURATION_MS = 10000; // 10 seconds
 
-// Base physics tuning (unmodified by reactorEnergy)
-const BASE_INPUT_ACCEL = 2.8; // units/sec^2
-const FRICTION = 3.0; // higher = more damping
-const BASE_MAX_WIND = 1.8; // max random drift acceleration
-const WIND_CHANGE_INTERVAL_MS = 700; // ms between drift direction changes
-
-// Band tuning
-const BAND_HALF_WIDTH = 0.16; // normalized half-width of safe band
-const BAND_BASE_CENTER = 0.5; // center around which band oscillates
-const BASE_BAND_AMPLITUDE = 0.28; // how far band center moves left/right
-const BASE_BAND_SPEED = 1.0; // radians per second
-
 // Visual effects tuning
 const MAX_SHAKE_PX = 10; // max screen shake when shipHealth = 0
 const MAX_SPARKS = 10; // max sparks per frame when shipHealth = 0
 
-// NOTE: BASE_BAND_AMPLITUDE <= 0.5 - BAND_HALF_WIDTH so band stays on track
+const renderPowerEngineer: MinigameRenderer<PowerEngineerState> = (ctx, state, fxRng) => {
+  const { width: w, height: h } = ctx.canvas;
+  const damage01 = 1 - state.health01;
+  const shakeAmplitudePx = damage01 * MAX_SHAKE_PX;
+  const sparkCount = Math.round(damage01 * MAX_SPARKS);
 
-type InputDir = -1 | 0 | 1;
+  ctx.clearRect(0, 0, w, h);
+
+  // Apply screen shake based on damage
+  const shakeX = shakeAmplitudePx ? (fxRng.next() - 0.5) * 2 * shakeAmplitudePx : 0;
+  const shakeY = shakeAmplitudePx ? (fxRng.next() - 0.5) * 2 * shakeAmplitudePx : 0;
+
+  ctx.save();
+  ctx.translate(shakeX, shakeY);
+
+  // Background
+  ctx.fillStyle = "#020617"; // slate-950
+  ctx.fillRect(0, 0, w, h);
+
+  const trackY = h * 0.5;
+  const margin = w * 0.08;
+  const trackStartX = margin;
+  const trackEndX = w - margin;
+
+  // Track
+  ctx.lineWidth = 8;
+  ctx.strokeStyle = "#1f2937"; // gray-800
+  ctx.beginPath();
+  ctx.moveTo(trackStartX, trackY);
+  ctx.lineTo(trackEndX, trackY);
+  ctx.stroke();
+
+  // Moving safe band
+  const bandCenter = getBandCenter(state);
+  const bandStartX = trackStartX + (bandCenter - BAND_HALF_WIDTH) * (trackEndX - trackStartX);
+  const bandEndX = trackStartX + (bandCenter + BAND_HALF_WIDTH) * (trackEndX - trackStartX);
+
+  ctx.lineWidth = 12;
+  ctx.strokeStyle = "#16a34a"; // green-600
+  ctx.beginPath();
+  ctx.moveTo(bandStartX, trackY);
+  ctx.lineTo(bandEndX, trackY);
+  ctx.stroke();
+
+  // Needle
+  const needleX = trackStartX + state.needlePos * (trackEndX - trackStartX);
+  ctx.strokeStyle = "#facc15"; // yellow-400
+  ctx.lineWidth = 4;
+  ctx.beginPath();
+  ctx.moveTo(needleX, trackY - 25);
+  ctx.lineTo(needleX, trackY + 25);
+  ctx.stroke();
+
+  // Needle knob
+  ctx.fillStyle = "#f97316"; // orange-500
+  ctx.beginPath();
+  ctx.arc(needleX, trackY, 7, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Sparks / arcs based on damage
+  if (sparkCount > 0) {
+    ctx.strokeStyle = "#facc15"; // bright yellow
+    ctx.lineWidth = 2;
+    for (let i = 0; i < sparkCount; i++) {
+      const sx = needleX + (fxRng.next() - 0.5) * 40;
+      const sy = trackY + (fxRng.next() - 0.5) * 40;
+      const ex = sx + (fxRng.next() - 0.5) * 20;
+      const ey = sy + (fxRng.next() - 0.5) * 20;
+      ctx.beginPath();
+      ctx.moveTo(sx, sy);
+      ctx.lineTo(ex, ey);
+      ctx.stroke();
+    }
+  }
 
-export const PowerEngineerMinigame: React.FC<MinigameProps> = ({ reactorEnergy, shipHealth, onComplete }) => {
-  const canvasRef = React.useRef<HTMLCanvasElement | null>(null);
-  const [running, setRunning] = React.useState(false);
-  const [result, setResult] = React.useState<string | null>(null);
+  // HUD
+  ctx.fillStyle = "#e5e7eb"; // gray-200
+  ctx.font = "16px system-ui, -apple-system, BlinkMacSystemFont, 'Inter', sans-serif";
+  ctx.textAlign = "left";
 
-  // We keep the current input direction in a ref so the animation loop
-  // always sees the latest value without re-subscribing effects.
-  const inputDirRef = React.useRef<InputDir>(0);
-  const [inputDir, setInputDir] = React.useState<InputDir>(0);
+  const secondsLeft = Math.max(0, state.durationMs - state.elapsedMs) / 1000;
+  ctx.fillText(`Time Left: ${secondsLeft.toFixed(1)}s`, margin, h * 0.15);
 
-  // Normalize and clamp incoming game factors once per render
-  const energy01 = clamp01(reactorEnergy);
-  const health01 = clamp01(shipHealth);
-  const damage01 = 1 - health01; // 0 = perfect, 1 = critical
+  const pct = powerEngineerSimulation.percent(state);
+  ctx.fillText(`Stability: ${pct}% in moving band`, margin, h * 0.22);
 
-  // Derived tuning from game factors
-  // Reactor energy boosts input acceleration, wind jitter, and band speed.
-  const inputAccelFactor = 0.6 + energy01 * 1.4; // 0.6x .. 2.0x
-  const maxWindFactor = 0.4 + energy01 * 2.0; // 0.4x .. 2.4x
-  const bandSpeedFactor = 0.7 + energy01 * 2.0; // 0.7x .. 2.7x
+  // Show current factors for debugging/feel tuning
+  ctx.fillText(
+    `Reactor: ${(state.energy01 * 100).toFixed(0)}%  Hull: ${(state.health01 * 100).toFixed(0)}%`,
+    margin,
+    h * 0.29
+  );
 
-  const effectiveInputAccel = BASE_INPUT_ACCEL * inputAccelFactor;
-  const effectiveMaxWind = BASE_MAX_WIND * maxWindFactor;
-  const effectiveBandSpeed = BASE_BAND_SPEED * bandSpeedFactor;
+  ctx.textAlign = "right";
+  ctx.fillText("Tap / Press Left or Right", w - margin, h * 0.15);
 
-  // Ship damage increases VFX (shake & sparks)
-  const shakeAmplitudePx = damage01 * MAX_SHAKE_PX;
-  const sparkCount = Math.round(damage01 * MAX_SPARKS);
+  ctx.restore();
+};
+
+export const PowerEngineerMinigame: React.FC<MinigameProps> = ({
+  reactorEnergy,
+  shipHealth,
+  rng,
+  clock,
+  durationMs = GAME_DURATION_MS,
+  hold,
+  onComplete,
+}) => {
+  const canvasRef = React.useRef<HTMLCanvasElement | null>(null);
+  const [result, setResult] = React.useState<string | null>(null);
+
+  // We keep the current input direction in a ref so repeated key events can
+  // be dropped without waiting for a re-render.
+  const inputDirRef = React.useRef<SteerDir>(0);
+  const [inputDir, setInputDir] = React.useState<SteerDir>(0);
+
+  const { running, paused, resuming, start, queueInput, pause, resume } = useMinigameLoop({
+    simulation: powerEngineerSimulation,
+    render: renderPowerEngineer,
+    canvasRef,
+    rng,
+    clock,
+    hold,
+    reactorEnergy,
+    shipHealth,
+    durationMs,
+    onFinish: (state, inputs, telemetry, params) => {
+      const pct = powerEngineerSimulation.percent(state);
+      const tier = getMinigameTier("PowerEngineer", pct);
+      if (tier === "SUCCESS") {
+        setResult(`SUCCESS: ${pct}% in band (Grants +1 Stability, optional +1 Buffer)`);
+      } else if (tier === "PARTIAL") {
+        setResult(`PARTIAL: ${pct}% in band (Grants +1 Stability)`);
+      } else {
+        setResult(`FAIL: ${pct}% in band (0 Stability)`);
+      }
+      onComplete(pct, inputs, telemetry, params);
+    },
+  });
+
+  const steer = React.useCallback(
+    (dir: SteerDir) => {
+      if (inputDirRef.current === dir) return; // ignore key auto-repeat
+      inputDirRef.current = dir;
+      setInputDir(dir);
+      queueInput({ kind: "steer", dir });
+    },
+    [queueInput]
+  );
+
+  // Inputs are dropped while paused and a key released in another window
+  // never reaches us, so start from neutral and re-sync once the run resumes.
+  React.useEffect(() => {
+    if (paused) {
+      inputDirRef.current = 0;
+      setInputDir(0);
+    } else {
+      queueInput({ kind: "steer", dir: inputDirRef.current });
+    }
+  }, [paused, queueInput]);
 
   // Keyboard input (desktop prototype fallback)
   React.useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === "ArrowLeft") {
-        inputDirRef.current = -1;
-        setInputDir(-1);
+        steer(-1);
       } else if (e.key === "ArrowRight") {
-        inputDirRef.current = 1;
-        setInputDir(1);
+        steer(1);
       }
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
       if (e.key === "ArrowLeft" && inputDirRef.current === -1) {
-        inputDirRef.current = 0;
-        setInputDir(0);
+        steer(0);
       } else if (e.key === "ArrowRight" && inputDirRef.current === 1) {
-        inputDirRef.current = 0;
-        setInputDir(0);
+        steer(0);
       }
     };
 
@@ -96,276 +218,25 @@ export const PowerEngineerMinigame: React.FC<MinigameProps> = ({ reactorEnergy,
       window.removeEventListener("keydown", handleKeyDown);
       window.removeEventListener("keyup", handleKeyUp);
     };
-  }, []);
+  }, [steer]);
 
   // Pointer/touch input for phone-style controls
-  const handlePointerDown = (
-    e: React.PointerEvent<HTMLCanvasElement>
-  ): void => {
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>): void => {
     const rect = e.currentTarget.getBoundingClientRect();
     const x = e.clientX - rect.left;
-    const width = rect.width;
-    const dir: InputDir = x < width / 2 ? -1 : 1;
-    inputDirRef.current = dir;
-    setInputDir(dir);
+    steer(x < rect.width / 2 ? -1 : 1);
   };
 
   const handlePointerUp = (): void => {
-    inputDirRef.current = 0;
-    setInputDir(0);
+    steer(0);
   };
 
   const handleStart = React.useCallback(() => {
-    const canvas = canvasRef.current;
-    if (canvas) {
-      const ctx = canvas.getContext("2d");
-      ctx?.clearRect(0, 0, canvas.width, canvas.height);
-    }
     inputDirRef.current = 0;
     setInputDir(0);
     setResult(null);
-    setRunning(true);
-  }, []);
-
-  // Main animation loop
-  React.useEffect(() => {
-    if (!running) return;
-
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-
-    let startTime = performance.now();
-    let lastTime = startTime;
-
-    // Needle state
-    let needlePos = 0.5; // normalized 0..1
-    let needleVel = 0; // in normalized units/sec
-
-    // Band motion
-    let bandPhase = 0; // radians
-
-    // Random drift ("wind")
-    let windAccel = 0; // normalized units/sec^2
-    let timeSinceWindChange = 0;
-
-    // Stability tracking
-    let timeInBandMs = 0;
-
-    let animationFrameId: number;
-    let stopped = false;
-
-    const drawFrame = (
-      needle: number,
-      bandCenter: number,
-      remainingMs: number,
-      timeInBand: number
-    ) => {
-      const w = canvas.width;
-      const h = canvas.height;
-
-      ctx.clearRect(0, 0, w, h);
-
-      // Apply screen shake based on damage
-      const shakeX = shakeAmplitudePx
-        ? (Math.random() - 0.5) * 2 * shakeAmplitudePx
-        : 0;
-      const shakeY = shakeAmplitudePx
-        ? (Math.random() - 0.5) * 2 * shakeAmplitudePx
-        : 0;
-
-      ctx.save();
-      ctx.translate(shakeX, shakeY);
-
-      // Background
-      ctx.fillStyle = "#020617"; // slate-950
-      ctx.fillRect(0, 0, w, h);
-
-      const trackY = h * 0.5;
-      const margin = w * 0.08;
-      const trackStartX = margin;
-      const trackEndX = w - margin;
-
-      // Track
-      ctx.lineWidth = 8;
-      ctx.strokeStyle = "#1f2937"; // gray-800
-      ctx.beginPath();
-      ctx.moveTo(trackStartX, trackY);
-      ctx.lineTo(trackEndX, trackY);
-      ctx.stroke();
-
-      // Moving safe band
-      const bandMinNorm = bandCenter - BAND_HALF_WIDTH;
-      const bandMaxNorm = bandCenter + BAND_HALF_WIDTH;
-      const bandStartX = trackStartX + bandMinNorm * (trackEndX - trackStartX);
-      const bandEndX = trackStartX + bandMaxNorm * (trackEndX - trackStartX);
-
-      ctx.lineWidth = 12;
-      ctx.strokeStyle = "#16a34a"; // green-600
-      ctx.beginPath();
-      ctx.moveTo(bandStartX, trackY);
-      ctx.lineTo(bandEndX, trackY);
-      ctx.stroke();
-
-      // Needle
-      const needleX = trackStartX + needle * (trackEndX - trackStartX);
-      ctx.strokeStyle = "#facc15"; // yellow-400
-      ctx.lineWidth = 4;
-      ctx.beginPath();
-      ctx.moveTo(needleX, trackY - 25);
-      ctx.lineTo(needleX, trackY + 25);
-      ctx.stroke();
-
-      // Needle knob
-      ctx.fillStyle = "#f97316"; // orange-500
-      ctx.beginPath();
-      ctx.arc(needleX, trackY, 7, 0, Math.PI * 2);
-      ctx.fill();
-
-      // Sparks / arcs based on damage
-      if (sparkCount > 0) {
-        ctx.strokeStyle = "#facc15"; // bright yellow
-        ctx.lineWidth = 2;
-        for (let i = 0; i < sparkCount; i++) {
-          const sx = needleX + (Math.random() - 0.5) * 40;
-          const sy = trackY + (Math.random() - 0.5) * 40;
-          const ex = sx + (Math.random() - 0.5) * 20;
-          const ey = sy + (Math.random() - 0.5) * 20;
-          ctx.beginPath();
-          ctx.moveTo(sx, sy);
-          ctx.lineTo(ex, ey);
-          ctx.stroke();
-        }
-      }
-
-      // HUD
-      ctx.fillStyle = "#e5e7eb"; // gray-200
-      ctx.font = "16px system-ui, -apple-system, BlinkMacSystemFont, 'Inter', sans-serif";
-      ctx.textAlign = "left";
-
-      const secondsLeft = Math.max(0, remainingMs) / 1000;
-      ctx.fillText(`Time Left: ${secondsLeft.toFixed(1)}s`, margin, h * 0.15);
-
-      const ratio = timeInBand / GAME_DURATION_MS;
-      const pct = Math.round(ratio * 100);
-      ctx.fillText(`Stability: ${pct}% in moving band`, margin, h * 0.22);
-
-      // Show current factors for debugging/feel tuning
-      ctx.fillText(
-        `Reactor: ${(energy01 * 100).toFixed(0)}%  Hull: ${(health01 * 100).toFixed(0)}%`,
-        margin,
-        h * 0.29
-      );
-
-      ctx.textAlign = "right";
-      ctx.fillText("Tap / Press Left or Right", w - margin, h * 0.15);
-
-      ctx.restore();
-    };
-
-    const step = (now: number) => {
-      if (stopped) return;
-
-      const dtMs = now - lastTime;
-      lastTime = now;
-      const dtSec = dtMs / 1000;
-
-      const elapsed = now - startTime;
-      const remaining = Math.max(GAME_DURATION_MS - elapsed, 0);
-
-      // Update wind
-      timeSinceWindChange += dtMs;
-      if (timeSinceWindChange >= WIND_CHANGE_INTERVAL_MS) {
-        timeSinceWindChange = 0;
-        // New random acceleration in [-effectiveMaxWind, effectiveMaxWind]
-        windAccel = (Math.random() * 2 - 1) * effectiveMaxWind;
-      }
-
-      // Needle physics
-      const inputAccel = inputDirRef.current * effectiveInputAccel;
-
-      // Apply input + wind
-      needleVel += (inputAccel + windAccel) * dtSec;
-
-      // Friction (exponential damping)
-      const damping = Math.exp(-FRICTION * dtSec);
-      needleVel *= damping;
-
-      // Integrate position
-      needlePos += needleVel * dtSec;
-
-      // Clamp 0..1 and bounce a bit if we hit edges
-      if (needlePos < 0) {
-        needlePos = 0;
-        needleVel = Math.abs(needleVel) * 0.4; // bounce inward
-      } else if (needlePos > 1) {
-        needlePos = 1;
-        needleVel = -Math.abs(needleVel) * 0.4;
-      }
-
-      // Moving band center; amplitude is kept constant for now, but you could
-      // also modulate it by energy01 if you want an even trickier game.
-      bandPhase += effectiveBandSpeed * dtSec;
-      const bandCenter =
-        BAND_BASE_CENTER + BASE_BAND_AMPLITUDE * Math.sin(bandPhase);
-
-      const bandMinNorm = bandCenter - BAND_HALF_WIDTH;
-      const bandMaxNorm = bandCenter + BAND_HALF_WIDTH;
-
-      // Track time in band
-      if (needlePos >= bandMinNorm && needlePos <= bandMaxNorm) {
-        timeInBandMs += dtMs;
-      }
-
-      // Draw
-      drawFrame(needlePos, bandCenter, remaining, timeInBandMs);
-
-      // End condition
-      if (remaining <= 0) {
-        // Final result
-        const ratio = clamp01(timeInBandMs / GAME_DURATION_MS);
-        const pct = Math.round(ratio * 100);
-        const tier = getMinigameTier(pct);
-        let outcome: string;
-        if (tier === "SUCCESS") {
-          outcome = `SUCCESS: ${pct}% in band (Grants +1 Stability, optional +1 Buffer)`;
-        } else if (tier === "PARTIAL") {
-          outcome = `PARTIAL: ${pct}% in band (Grants +1 Stability)`;
-        } else {
-          outcome = `FAIL: ${pct}% in band (0 Stability)`;
-        }
-        if (!stopped) {
-          setResult(outcome);
-          setRunning(false);
-          onComplete(pct);
-        }
-        return;
-      }
-
-      animationFrameId = requestAnimationFrame(step);
-    };
-
-    // Initial draw (before any time passes)
-    drawFrame(needlePos, BAND_BASE_CENTER, GAME_DURATION_MS, 0);
-    animationFrameId = requestAnimationFrame(step);
-
-    return () => {
-      stopped = true;
-      cancelAnimationFrame(animationFrameId);
-    };
-  }, [
-    running,
-    energy01,
-    health01,
-    damage01,
-    effectiveInputAccel,
-    effectiveMaxWind,
-    effectiveBandSpeed,
-    shakeAmplitudePx,
-    sparkCount,
-    onComplete,
-  ]);
+    start();
+  }, [start]);
 
   return (
     <div className="w-full flex flex-col items-center gap-4 p-4 bg-slate-900 text-slate-100 rounded-2xl shadow-lg max-w-xl mx-auto">
@@ -391,17 +262,22 @@ export const PowerEngineerMinigame: React.FC<MinigameProps> = ({ reactorEnergy,
           onPointerLeave={handlePointerUp}
         />
       </div>
-      <button
-        onClick={handleStart}
-        disabled={running}
-        className={`px-4 py-2 rounded-lg text-sm font-medium border transition ${
-          running
-            ? "bg-slate-700 border-slate-600 text-slate-300 cursor-not-allowed"
-            : "bg-emerald-600 border-emerald-500 hover:bg-emerald-500"
-        }`}
-      >
-        {running ? "Stabilizing..." : "Start"}
-      </button>
+      <div className="flex gap-2">
+        <button
+          onClick={handleStart}
+          disabled={running}
+          className={`px-4 py-2 rounded-lg text-sm font-medium border transition ${
+            running
+              ? "bg-slate-700 border-slate-600 text-slate-300 cursor-not-allowed"
+              : "bg-emerald-600 border-emerald-500 hover:bg-emerald-500"
+          }`}
+        >
+          {running ? "Stabilizing..." : "Start"}
+        </button>
+        {running && (
+          <MinigamePauseButton paused={paused} resuming={resuming} onPause={pause} onResume={resume} />
+        )}
+      </div>
       <div className="text-xs text-slate-400 mt-1">
         Input: {inputDir === -1 ? "Left" : inputDir === 1 ? "Right" : "Neutral"}
       </div>
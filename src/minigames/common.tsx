@@ -1,12 +1,48 @@
 import React from "react";
-import type { MinigameTier } from "../game/types";
+import type { Rng } from "../game/rng";
+import type { MinigameInputSample, MinigameTelemetry, MinigameTier } from "../game/types";
+import type { MinigameClock, MinigameParams } from "./simulation/core";
 
 export interface MinigameProps {
   reactorEnergy: number;
   shipHealth: number;
-  onComplete: (percentFinished: number) => void;
+  /** Source for every random draw so a seeded match replays identically. */
+  rng: Rng;
+  /** Time source for the frame loop. Defaults to `performance.now()`. */
+  clock?: MinigameClock;
+  /** Run length; item skill checks pass a condensed one. Defaults to the full run. */
+  durationMs?: number;
+  /** Freezes the run while true, e.g. while the inventory covers it. */
+  hold?: boolean;
+  /** `params` are the factors the run was actually tuned by, so a replay can re-run it. */
+  onComplete: (
+    percentFinished: number,
+    inputs: MinigameInputSample[],
+    telemetry: MinigameTelemetry,
+    params: MinigameParams,
+  ) => void;
 }
 
+/** Pause / Resume control shown beside Start while a run is live. */
+export const MinigamePauseButton: React.FC<{
+  paused: boolean;
+  resuming: boolean;
+  onPause: () => void;
+  onResume: () => void;
+}> = ({ paused, resuming, onPause, onResume }) => (
+  <button
+    onClick={paused ? onResume : onPause}
+    disabled={resuming}
+    className={`px-4 py-2 rounded-lg text-sm font-medium border transition ${
+      resuming
+        ? "bg-slate-700 border-slate-600 text-slate-300 cursor-not-allowed"
+        : "bg-slate-800 border-slate-600 hover:bg-slate-700"
+    }`}
+  >
+    {resuming ? "Resuming..." : paused ? "Resume" : "Pause"}
+  </button>
+);
+
 export const MinigameCard: React.FC<{
   title: string;
   subtitle: string;
@@ -1,18 +1,40 @@
 import type React from "react";
-import type { Job } from "../game/types";
+import { getJobDefinition, JOBS, type Job } from "../game/jobs";
 import type { MinigameProps } from "./common";
 import { CoolantTechMinigame } from "./CoolantTech";
 import { FluxSpecialistMinigame } from "./FluxSpecialist";
+import { HullTechnicianMinigame } from "./HullTechnician";
 import { PowerEngineerMinigame } from "./PowerEngineer";
+import { coolantTechSimulation } from "./simulation/coolantTech";
+import type { MinigameSimulation, SimulationState } from "./simulation/core";
+import { fluxSpecialistSimulation } from "./simulation/fluxSpecialist";
+import { hullTechnicianSimulation } from "./simulation/hullTechnician";
+import { powerEngineerSimulation } from "./simulation/powerEngineer";
 
-const registry: Record<Job, React.FC<MinigameProps>> = {
-  PowerEngineer: PowerEngineerMinigame,
-  CoolantTech: CoolantTechMinigame,
-  FluxSpecialist: FluxSpecialistMinigame,
+// The component that draws each simulation. Jobs pick their simulation in
+// game/jobs.ts, so a job's component is found through it.
+const COMPONENTS = new Map<MinigameSimulation<SimulationState>, React.FC<MinigameProps>>([
+  [powerEngineerSimulation, PowerEngineerMinigame],
+  [coolantTechSimulation, CoolantTechMinigame],
+  [fluxSpecialistSimulation, FluxSpecialistMinigame],
+  [hullTechnicianSimulation, HullTechnicianMinigame],
+]);
+
+/** Throws at load if a job in game/jobs.ts has a simulation with no component here. */
+const defineMinigames = (): Record<Job, React.FC<MinigameProps>> => {
+  const missing = JOBS.filter((job) => !COMPONENTS.has(getJobDefinition(job).simulation));
+  if (missing.length > 0) throw new Error(`No minigame registered for ${missing.join(", ")}`);
+  return Object.fromEntries(
+    JOBS.map((job) => [job, COMPONENTS.get(getJobDefinition(job).simulation)]),
+  ) as Record<Job, React.FC<MinigameProps>>;
 };
 
+const registry = defineMinigames();
+
 export const getMinigameForJob = (job: Job): React.FC<MinigameProps> => {
-  return registry[job] ?? PowerEngineerMinigame;
+  const minigame = registry[job];
+  if (!minigame) throw new Error(`No minigame registered for job "${job}"`);
+  return minigame;
 };
 
-export { PowerEngineerMinigame, CoolantTechMinigame, FluxSpecialistMinigame };
+export { PowerEngineerMinigame, CoolantTechMinigame, FluxSpecialistMinigame, HullTechnicianMinigame };
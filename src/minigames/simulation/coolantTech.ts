@@ -0,0 +1,132 @@
+import type { MinigameSimulation, SimulationState } from "./core";
+import { clamp01 } from "../utils";
+
+// Leak Control: leaks open along two coolant tubes and grow; tapping a leak
+// shrinks it until it seals, and a leak that grows too large overflows.
+
+// Leak tuning
+const BASE_SPAWN_INTERVAL_MS = 1000; // baseline time between leaks
+const BASE_GROWTH_RATE_PX = 12; // px/sec radius growth
+const MAX_LEAK_RADIUS_PX = 30; // when exceeded, leak overflows
+const TAP_SHRINK_PX = 8; // how much radius shrinks per successful tap
+const MIN_LEAK_RADIUS_PX = 4; // when shrunk below this, leak is considered patched
+const TAP_PADDING_PX = 14; // clickable padding around a leak
+
+// Canvas layout, shared with the renderer
+export const CANVAS_WIDTH = 480;
+export const CANVAS_HEIGHT = 260;
+const TUBE_MARGIN_X = CANVAS_WIDTH * 0.08;
+const TUBE_GAP = 40; // vertical distance between tube centers
+const TUBE_CENTER_Y = CANVAS_HEIGHT * 0.55;
+export const TUBE_LAYOUT = {
+  startX: TUBE_MARGIN_X,
+  endX: CANVAS_WIDTH - TUBE_MARGIN_X,
+  upperY: TUBE_CENTER_Y - TUBE_GAP / 2,
+  lowerY: TUBE_CENTER_Y + TUBE_GAP / 2,
+  thickness: 22, // visual thickness of tube
+};
+
+export type Leak = {
+  x: number; // px
+  y: number; // px (anchored near tube center)
+  radius: number; // px
+  active: boolean;
+};
+
+export type CoolantTechState = SimulationState & {
+  energy01: number;
+  health01: number;
+  // Higher energy = faster spawn and growth
+  spawnIntervalMs: number;
+  growthRatePx: number;
+  leaks: Leak[];
+  timeSinceSpawn: number;
+  patched: number;
+  overflow: number;
+};
+
+/** Shrinks the closest active leak within reach of the tap. */
+const tapLeak = (state: CoolantTechState, x: number, y: number): CoolantTechState => {
+  let bestIndex = -1;
+  let bestDistSq = Infinity;
+  state.leaks.forEach((leak, i) => {
+    if (!leak.active) return;
+    const dx = leak.x - x;
+    const dy = leak.y - y;
+    const distSq = dx * dx + dy * dy;
+    const maxReach = leak.radius + TAP_PADDING_PX;
+    if (distSq <= maxReach * maxReach && distSq < bestDistSq) {
+      bestDistSq = distSq;
+      bestIndex = i;
+    }
+  });
+  if (bestIndex < 0) return state;
+
+  const radius = Math.max(0, state.leaks[bestIndex].radius - TAP_SHRINK_PX);
+  const patched = radius <= MIN_LEAK_RADIUS_PX;
+  return {
+    ...state,
+    leaks: state.leaks.map((leak, i) => (i === bestIndex ? { ...leak, radius, active: !patched } : leak)),
+    patched: state.patched + (patched ? 1 : 0),
+  };
+};
+
+export const coolantTechSimulation: MinigameSimulation<CoolantTechState> = {
+  init: ({ reactorEnergy, shipHealth, durationMs }) => {
+    const energy01 = clamp01(reactorEnergy);
+    return {
+      elapsedMs: 0,
+      durationMs,
+      energy01,
+      health01: clamp01(shipHealth),
+      spawnIntervalMs: BASE_SPAWN_INTERVAL_MS * (1.2 - energy01 * 0.7), // ~1200ms .. ~500ms
+      growthRatePx: BASE_GROWTH_RATE_PX * (0.7 + energy01 * 2.0), // ~8.4 .. ~38.4 px/sec
+      leaks: [],
+      timeSinceSpawn: 0,
+      patched: 0,
+      overflow: 0,
+    };
+  },
+
+  step: (state, inputs, dtMs, rng) => {
+    const dtSec = dtMs / 1000;
+    const tapped = inputs.reduce(
+      (current, input) => (input.kind === "tap" ? tapLeak(current, input.x, input.y) : current),
+      state,
+    );
+
+    // Grow existing leaks
+    let overflow = tapped.overflow;
+    const leaks = tapped.leaks.map((leak) => {
+      if (!leak.active) return leak;
+      const radius = leak.radius + tapped.growthRatePx * dtSec;
+      if (radius < MAX_LEAK_RADIUS_PX) return { ...leak, radius };
+      overflow += 1;
+      return { ...leak, radius, active: false };
+    });
+
+    // Spawn new leaks based on interval and energy
+    let timeSinceSpawn = tapped.timeSinceSpawn + dtMs;
+    while (timeSinceSpawn >= tapped.spawnIntervalMs) {
+      timeSinceSpawn -= tapped.spawnIntervalMs;
+
+      const margin = 40;
+      const x = margin + rng.next() * (CANVAS_WIDTH - margin * 2);
+      // Randomly choose upper or lower tube, with a little jitter vertically
+      const baseY = rng.next() < 0.5 ? TUBE_LAYOUT.upperY : TUBE_LAYOUT.lowerY;
+      const y = baseY + (rng.next() - 0.5) * (TUBE_LAYOUT.thickness * 0.6);
+      leaks.push({ x, y, radius: 4 + rng.next() * 4, active: true });
+    }
+
+    return { ...tapped, elapsedMs: state.elapsedMs + dtMs, leaks, timeSinceSpawn, overflow };
+  },
+
+  percent: (state) => Math.round(clamp01(state.patched / (state.leaks.length || 1)) * 100),
+
+  stats: (state) => ({
+    job: "CoolantTech",
+    patched: state.patched,
+    overflow: state.overflow,
+    total: state.leaks.length,
+  }),
+};
@@ -0,0 +1,98 @@
+import { forkRng, type Rng } from "../../game/rng";
+import { summarizeInputs } from "../../game/telemetry";
+import type {
+  MinigameInputSample,
+  MinigamePauseSummary,
+  MinigameStats,
+  MinigameTelemetry,
+} from "../../game/types";
+
+// Shared contract for the minigame simulations. Each minigame is a pure
+// `step(state, inputs, dtMs, rng)` advanced at a fixed step, so a run is fully
+// determined by its seed and its input timeline: the canvas loop, a headless
+// replay and a test all land on the same score.
+
+/** Simulation step length. Inputs are applied at step boundaries. */
+export const STEP_MS = 16;
+
+export type MinigameClock = {
+  /** Milliseconds from an arbitrary origin; only differences are used. */
+  now: () => number;
+};
+
+export const performanceClock: MinigameClock = { now: () => performance.now() };
+
+/** The game factors a run is tuned by. Energy and health are 0..1. */
+export type MinigameParams = {
+  reactorEnergy: number;
+  shipHealth: number;
+  durationMs: number;
+};
+
+export type SimulationState = {
+  elapsedMs: number;
+  durationMs: number;
+};
+
+// Written as methods so any job's simulation fits the `SimulationState` slot
+// on its job definition.
+export type MinigameSimulation<S extends SimulationState> = {
+  init(params: MinigameParams): S;
+  /**
+   * Returns the next state without touching `state`. `inputs` are the samples
+   * that arrived since the previous step, oldest first.
+   */
+  step(state: S, inputs: MinigameInputSample[], dtMs: number, rng: Rng): S;
+  /** Score for the run so far, 0..100. */
+  percent(state: S): number;
+  /** The counters behind the score, for the Maintenance report. */
+  stats(state: S): MinigameStats;
+};
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/** An input as the UI reports it; the loop stamps `t` when the step applies it. */
+export type MinigameInputDraft = DistributiveOmit<MinigameInputSample, "t">;
+
+export const isFinished = (state: SimulationState): boolean => state.elapsedMs >= state.durationMs;
+
+export const getTelemetry = <S extends SimulationState>(
+  simulation: MinigameSimulation<S>,
+  state: S,
+  inputs: MinigameInputSample[],
+  pauses: MinigamePauseSummary = { count: 0, totalMs: 0 },
+): MinigameTelemetry => ({
+  stats: simulation.stats(state),
+  inputs: summarizeInputs(inputs, state.durationMs),
+  pauses,
+});
+
+/** One fixed step, shortened so the run ends exactly at its duration. */
+export const advance = <S extends SimulationState>(
+  simulation: MinigameSimulation<S>,
+  state: S,
+  inputs: MinigameInputSample[],
+  rng: Rng,
+): S => simulation.step(state, inputs, Math.min(STEP_MS, state.durationMs - state.elapsedMs), rng);
+
+/**
+ * Plays a whole run without a canvas. `rng` must be the same stream the live
+ * run was handed; recorded samples are applied at the step their `t` names.
+ */
+export const runHeadless = <S extends SimulationState>(
+  simulation: MinigameSimulation<S>,
+  params: MinigameParams,
+  rng: Rng,
+  samples: MinigameInputSample[] = [],
+): S => {
+  // The live loop forks its simulation stream first, before the cosmetic one.
+  const simRng = forkRng(rng);
+  let state = simulation.init(params);
+  let cursor = 0;
+  while (!isFinished(state)) {
+    const from = cursor;
+    while (cursor < samples.length && samples[cursor].t <= state.elapsedMs) cursor += 1;
+    state = advance(simulation, state, samples.slice(from, cursor), simRng);
+  }
+  return state;
+};
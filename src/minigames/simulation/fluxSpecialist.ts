@@ -0,0 +1,168 @@
+import type { MinigameSimulation, SimulationState } from "./core";
+import { clamp01 } from "../utils";
+
+// Wave Balancing: spikes scroll left along the flux line, swinging wider as
+// reactor energy rises; tapping one inside the stabilization zone clips it.
+
+// Spike tuning (baseline)
+const BASE_SCROLL_SPEED_PX = 90; // px/sec baseline scroll speed
+export const BASE_SPIKE_HEIGHT_PX = 35; // baseline height for spikes
+
+// How erratic spikes get with energy
+const SPIKE_X_JITTER_PER_SEC = 40; // px/sec random X movement at full energy (reduced, swing is main effect)
+const SPIKE_HEIGHT_JITTER_PER_SEC = 40; // px/sec height jitter at full energy
+const MAX_SPIKE_SWING_AMPLITUDE_PX = 80; // max left-right swing at full energy
+const SPIKE_SWING_SPEED = 3.0; // rad/sec base for sinusoidal swing
+
+// Wave backdrop speed; the renderer owns the rest of the wave's look
+const BASE_WAVE_SPEED = 0.8;
+
+// Canvas layout, shared with the renderer
+export const CANVAS_WIDTH = 480;
+export const CANVAS_HEIGHT = 260;
+export const BASELINE_Y = CANVAS_HEIGHT * 0.6;
+
+// Stabilization zone
+export const HIT_ZONE_X = CANVAS_WIDTH * 0.35; // x-position of center of hit zone
+export const HIT_ZONE_HALF_WIDTH = 22; // tolerance left/right for timing
+const TAP_HIT_RADIUS = 30; // px radius for tap proximity to spike body
+
+export type Spike = {
+  x: number; // base X position (scrolls left)
+  renderX: number; // actual on-screen X including swing
+  height: number; // px
+  upwards: boolean; // if true, spike goes up, else down from baseline
+  active: boolean;
+  hit: boolean;
+  phase: number; // per-spike swing phase offset
+};
+
+export type FluxSpecialistState = SimulationState & {
+  energy01: number;
+  health01: number;
+  // Spike spawning: from chill (~1600ms) to chaotic (~450ms)
+  spawnIntervalMs: number;
+  // Spike scroll speed: from ~0.7x to ~3x base
+  scrollSpeedPx: number;
+  // Spike height baseline slightly scales with energy
+  spikeHeightBase: number;
+  spikes: Spike[];
+  timeSinceSpawn: number;
+  wavePhase: number; // controls overall wave motion
+  stabilized: number;
+  missed: number;
+};
+
+/** Clips the closest unhit spike inside the zone and within reach of the tap. */
+const tapSpike = (state: FluxSpecialistState, x: number, y: number): FluxSpecialistState => {
+  let bestIndex = -1;
+  let bestDistSq = Infinity;
+  state.spikes.forEach((spike, i) => {
+    if (!spike.active || spike.hit) return;
+    // Only consider spikes within the timing window
+    if (Math.abs(spike.renderX - HIT_ZONE_X) > HIT_ZONE_HALF_WIDTH) return;
+    // Approximate spike's center for tap detection
+    const tipY = spike.upwards ? BASELINE_Y - spike.height : BASELINE_Y + spike.height;
+    const dx = spike.renderX - x;
+    const dy = (BASELINE_Y + tipY) / 2 - y;
+    const distSq = dx * dx + dy * dy;
+    if (distSq <= TAP_HIT_RADIUS * TAP_HIT_RADIUS && distSq < bestDistSq) {
+      bestDistSq = distSq;
+      bestIndex = i;
+    }
+  });
+  if (bestIndex < 0) return state;
+  return {
+    ...state,
+    spikes: state.spikes.map((spike, i) => (i === bestIndex ? { ...spike, hit: true } : spike)),
+    stabilized: state.stabilized + 1,
+  };
+};
+
+export const fluxSpecialistSimulation: MinigameSimulation<FluxSpecialistState> = {
+  init: ({ reactorEnergy, shipHealth, durationMs }) => {
+    const energy01 = clamp01(reactorEnergy);
+    return {
+      elapsedMs: 0,
+      durationMs,
+      energy01,
+      health01: clamp01(shipHealth),
+      spawnIntervalMs: 1600 - energy01 * 1150, // 1600 .. 450 ms
+      scrollSpeedPx: BASE_SCROLL_SPEED_PX * (0.7 + energy01 * 2.3), // ~63 .. ~297 px/sec
+      spikeHeightBase: BASE_SPIKE_HEIGHT_PX * (0.9 + energy01 * 1.2), // ~0.9x..2.1x
+      spikes: [],
+      timeSinceSpawn: 0,
+      wavePhase: 0,
+      stabilized: 0,
+      missed: 0,
+    };
+  },
+
+  step: (state, inputs, dtMs, rng) => {
+    const dtSec = dtMs / 1000;
+    const tapped = inputs.reduce(
+      (current, input) => (input.kind === "tap" ? tapSpike(current, input.x, input.y) : current),
+      state,
+    );
+    const { energy01, spikeHeightBase } = tapped;
+    const elapsedMs = state.elapsedMs + dtMs;
+    const elapsedSec = elapsedMs / 1000;
+
+    // Move spikes and apply energy-driven swing + jitter
+    const swingAmp = MAX_SPIKE_SWING_AMPLITUDE_PX * energy01;
+    const swingSpeed = SPIKE_SWING_SPEED * (0.6 + energy01 * 1.4);
+    let missed = tapped.missed;
+    const spikes = tapped.spikes.map((spike) => {
+      if (!spike.active) return spike;
+
+      // Base leftward scroll plus erratic horizontal jitter (scaled by energy)
+      const x =
+        spike.x - tapped.scrollSpeedPx * dtSec + (rng.next() - 0.5) * 2 * SPIKE_X_JITTER_PER_SEC * energy01 * dtSec;
+
+      // Height jitter (tip wobble up/down)
+      const dHeight = (rng.next() - 0.5) * 2 * SPIKE_HEIGHT_JITTER_PER_SEC * energy01 * dtSec;
+      const minHeight = BASE_SPIKE_HEIGHT_PX * 0.5;
+      const maxHeight = spikeHeightBase * 2.3;
+      const height = Math.max(minHeight, Math.min(maxHeight, spike.height + dHeight));
+
+      // Sinusoidal left-right swing around the base X
+      const renderX = x + Math.sin(spike.phase + elapsedSec * swingSpeed) * swingAmp;
+
+      // If it has moved fully off-screen on the left (considering swing), count miss if not hit
+      const active = x + swingAmp >= -40;
+      if (!active && !spike.hit) missed += 1;
+      return { ...spike, x, height, renderX, active };
+    });
+
+    // Spawn new spikes
+    let timeSinceSpawn = tapped.timeSinceSpawn + dtMs;
+    while (timeSinceSpawn >= tapped.spawnIntervalMs) {
+      timeSinceSpawn -= tapped.spawnIntervalMs;
+
+      const spawnX = CANVAS_WIDTH + 40;
+      const upwards = rng.next() < 0.5;
+      const height = spikeHeightBase * 0.7 + rng.next() * spikeHeightBase * 0.5; // some variability
+      const phase = rng.next() * Math.PI * 2; // random swing phase per spike
+      spikes.push({ x: spawnX, renderX: spawnX, height, upwards, active: true, hit: false, phase });
+    }
+
+    return {
+      ...tapped,
+      elapsedMs,
+      spikes,
+      timeSinceSpawn,
+      // Advance wave phase (gentle motion)
+      wavePhase: tapped.wavePhase + BASE_WAVE_SPEED * (0.6 + energy01 * 0.8) * dtSec,
+      missed,
+    };
+  },
+
+  percent: (state) => Math.round(clamp01(state.stabilized / (state.spikes.length || 1)) * 100),
+
+  stats: (state) => ({
+    job: "FluxSpecialist",
+    stabilized: state.stabilized,
+    missed: state.missed,
+    total: state.spikes.length,
+  }),
+};
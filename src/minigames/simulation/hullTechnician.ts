@@ -0,0 +1,176 @@
+import type { Rng } from "../../game/rng";
+import type { MinigameSimulation, SimulationState } from "./core";
+import { clamp01 } from "../utils";
+
+// Crack Welding: cracks open across a hull plate and creep outward; dragging
+// along a crack from its origin welds it, and one that grows too long ruptures.
+
+// Crack tuning
+const BASE_SPAWN_INTERVAL_MS = 1400; // baseline time between cracks
+const BASE_CREEP_RATE_PX = 10; // px/sec of new crack length
+const SEGMENT_PX = 14; // length of each crack segment
+const START_SEGMENTS = 2; // segments a crack opens with on a healthy hull
+const MAX_SEGMENTS = 10; // past this the crack ruptures
+export const WELD_REACH_PX = 16; // how close the pointer must pass to a crack point
+const SEGMENT_TURN_RAD = 0.6; // max bend between segments
+
+// Canvas layout, shared with the renderer
+export const CANVAS_WIDTH = 480;
+export const CANVAS_HEIGHT = 260;
+const PLATE_MARGIN = 28;
+export const PLATE_BOUNDS = {
+  minX: PLATE_MARGIN,
+  maxX: CANVAS_WIDTH - PLATE_MARGIN,
+  minY: PLATE_MARGIN + 84, // keep clear of the HUD
+  maxY: CANVAS_HEIGHT - PLATE_MARGIN,
+};
+
+export type Point = { x: number; y: number };
+
+export type Crack = {
+  points: Point[]; // origin first, tip last
+  heading: number; // rad, direction of the next segment
+  creepPx: number; // growth banked toward the next segment
+  welded: number; // index of the last welded point
+  state: "open" | "sealed" | "ruptured";
+  openedAtMs: number; // run time the crack appeared
+};
+
+export type HullTechnicianState = SimulationState & {
+  energy01: number;
+  health01: number;
+  // Higher energy = more cracks that creep faster
+  spawnIntervalMs: number;
+  creepRatePx: number;
+  // A damaged hull cracks open further before you can react
+  startSegments: number;
+  cracks: Crack[];
+  timeSinceSpawn: number;
+  pointer: Point | null; // torch position while the pointer is held
+  sealed: number;
+  ruptured: number;
+};
+
+/** Adds one segment, turning back toward the plate when it would leave it. */
+const extend = (crack: Crack, rng: Rng): Crack => {
+  const { minX, maxX, minY, maxY } = PLATE_BOUNDS;
+  const tip = crack.points[crack.points.length - 1];
+  let heading = crack.heading + (rng.next() - 0.5) * 2 * SEGMENT_TURN_RAD;
+  let x = tip.x + Math.cos(heading) * SEGMENT_PX;
+  let y = tip.y + Math.sin(heading) * SEGMENT_PX;
+  if (x < minX || x > maxX || y < minY || y > maxY) {
+    heading += Math.PI;
+    x = Math.max(minX, Math.min(maxX, tip.x + Math.cos(heading) * SEGMENT_PX));
+    y = Math.max(minY, Math.min(maxY, tip.y + Math.sin(heading) * SEGMENT_PX));
+  }
+  return { ...crack, heading, points: [...crack.points, { x, y }] };
+};
+
+const spawnCrack = (state: HullTechnicianState, openedAtMs: number, rng: Rng): Crack => {
+  const { minX, maxX, minY, maxY } = PLATE_BOUNDS;
+  let crack: Crack = {
+    points: [{ x: minX + rng.next() * (maxX - minX), y: minY + rng.next() * (maxY - minY) }],
+    heading: rng.next() * Math.PI * 2,
+    creepPx: 0,
+    welded: 0,
+    state: "open",
+    openedAtMs,
+  };
+  for (let i = 0; i < state.startSegments; i++) crack = extend(crack, rng);
+  return crack;
+};
+
+/** Advances the weld on every open crack whose next point sits under the torch. */
+const weldAt = (state: HullTechnicianState, pointer: Point): HullTechnicianState => {
+  let sealed = state.sealed;
+  const cracks = state.cracks.map((crack) => {
+    if (crack.state !== "open") return crack;
+    let welded = crack.welded;
+    while (welded < crack.points.length - 1) {
+      const next = crack.points[welded + 1];
+      const dx = next.x - pointer.x;
+      const dy = next.y - pointer.y;
+      if (dx * dx + dy * dy > WELD_REACH_PX * WELD_REACH_PX) break;
+      welded += 1;
+    }
+    if (welded < crack.points.length - 1) return welded === crack.welded ? crack : { ...crack, welded };
+    sealed += 1;
+    return { ...crack, welded, state: "sealed" as const };
+  });
+  return { ...state, cracks, sealed };
+};
+
+/**
+ * The cracks a run is scored on. One still open that appeared within the last
+ * spawn interval never had a fair chance to be welded, so it is left out.
+ */
+const scoredCracks = (state: HullTechnicianState): Crack[] =>
+  state.cracks.filter((crack) => crack.state !== "open" || state.elapsedMs - crack.openedAtMs >= state.spawnIntervalMs);
+
+export const hullTechnicianSimulation: MinigameSimulation<HullTechnicianState> = {
+  init: ({ reactorEnergy, shipHealth, durationMs }) => {
+    const energy01 = clamp01(reactorEnergy);
+    const health01 = clamp01(shipHealth);
+    const spawnIntervalMs = BASE_SPAWN_INTERVAL_MS * (1.2 - energy01 * 0.6); // ~1680ms .. ~840ms
+    return {
+      elapsedMs: 0,
+      durationMs,
+      energy01,
+      health01,
+      spawnIntervalMs,
+      creepRatePx: BASE_CREEP_RATE_PX * (0.6 + energy01 * 1.6), // ~6 .. ~22 px/sec
+      startSegments: START_SEGMENTS + Math.round((1 - health01) * 2),
+      cracks: [],
+      timeSinceSpawn: spawnIntervalMs, // first crack opens immediately
+      pointer: null,
+      sealed: 0,
+      ruptured: 0,
+    };
+  },
+
+  step: (state, inputs, dtMs, rng) => {
+    const dtSec = dtMs / 1000;
+    let next = inputs.reduce((current, input) => {
+      if (input.kind === "release") return { ...current, pointer: null };
+      if (input.kind !== "trace") return current;
+      const pointer = { x: input.x, y: input.y };
+      return weldAt({ ...current, pointer }, pointer);
+    }, state);
+
+    // Creep open cracks; a crack that outgrows the plate's tolerance ruptures
+    let ruptured = next.ruptured;
+    const cracks = next.cracks.map((crack) => {
+      if (crack.state !== "open") return crack;
+      let grown = { ...crack, creepPx: crack.creepPx + next.creepRatePx * dtSec };
+      while (grown.creepPx >= SEGMENT_PX && grown.state === "open") {
+        grown = extend({ ...grown, creepPx: grown.creepPx - SEGMENT_PX }, rng);
+        if (grown.points.length - 1 > MAX_SEGMENTS) {
+          grown = { ...grown, state: "ruptured" };
+          ruptured += 1;
+        }
+      }
+      return grown;
+    });
+
+    // Spawn new cracks based on interval and energy
+    let timeSinceSpawn = next.timeSinceSpawn + dtMs;
+    while (timeSinceSpawn >= next.spawnIntervalMs) {
+      timeSinceSpawn -= next.spawnIntervalMs;
+      cracks.push(spawnCrack(next, state.elapsedMs + dtMs, rng));
+    }
+
+    next = { ...next, elapsedMs: state.elapsedMs + dtMs, cracks, timeSinceSpawn, ruptured };
+
+    // A held torch keeps welding as the crack creeps toward it
+    return next.pointer ? weldAt(next, next.pointer) : next;
+  },
+
+  percent: (state) => Math.round(clamp01(state.sealed / (scoredCracks(state).length || 1)) * 100),
+
+  stats: (state) => ({
+    job: "HullTechnician",
+    sealed: state.sealed,
+    ruptured: state.ruptured,
+    total: scoredCracks(state).length,
+  }),
+};
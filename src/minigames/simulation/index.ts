@@ -0,0 +1,20 @@
+import { getJobDefinition, type Job } from "../../game/jobs";
+import type { Rng } from "../../game/rng";
+import type { MinigameInputSample } from "../../game/types";
+import { runHeadless, type MinigameParams } from "./core";
+
+/**
+ * Replays a job's minigame without a canvas. Given the rng the live run was
+ * handed and its recorded inputs, this lands on the score the player saw.
+ */
+export const simulateMinigame = (
+  job: Job,
+  params: MinigameParams,
+  rng: Rng,
+  samples: MinigameInputSample[] = [],
+): number => {
+  const { simulation } = getJobDefinition(job);
+  return simulation.percent(runHeadless(simulation, params, rng, samples));
+};
+
+export { runHeadless, STEP_MS, type MinigameClock, type MinigameParams } from "./core";
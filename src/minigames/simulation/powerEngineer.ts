@@ -0,0 +1,117 @@
+import type { MinigameSimulation, SimulationState } from "./core";
+import { clamp01 } from "../utils";
+
+// Reactor Tuning: steer an inertial needle to stay inside a band that sweeps
+// along the gauge, fighting random drift ("wind").
+
+// Base physics tuning (unmodified by reactorEnergy)
+const BASE_INPUT_ACCEL = 2.8; // units/sec^2
+const FRICTION = 3.0; // higher = more damping
+const BASE_MAX_WIND = 1.8; // max random drift acceleration
+const WIND_CHANGE_INTERVAL_MS = 700; // ms between drift direction changes
+
+// Band tuning
+export const BAND_HALF_WIDTH = 0.16; // normalized half-width of safe band
+const BAND_BASE_CENTER = 0.5; // center around which band oscillates
+const BASE_BAND_AMPLITUDE = 0.28; // how far band center moves left/right
+const BASE_BAND_SPEED = 1.0; // radians per second
+
+// NOTE: BASE_BAND_AMPLITUDE <= 0.5 - BAND_HALF_WIDTH so band stays on track
+
+export type SteerDir = -1 | 0 | 1;
+
+export type PowerEngineerState = SimulationState & {
+  energy01: number;
+  health01: number;
+  // Reactor energy boosts input acceleration, wind jitter, and band speed.
+  inputAccel: number;
+  maxWind: number;
+  bandSpeed: number;
+  steer: SteerDir;
+  needlePos: number; // normalized 0..1
+  needleVel: number; // normalized units/sec
+  bandPhase: number; // radians
+  windAccel: number; // normalized units/sec^2
+  timeSinceWindChange: number;
+  timeInBandMs: number;
+};
+
+export const getBandCenter = (state: PowerEngineerState): number =>
+  BAND_BASE_CENTER + BASE_BAND_AMPLITUDE * Math.sin(state.bandPhase);
+
+export const powerEngineerSimulation: MinigameSimulation<PowerEngineerState> = {
+  init: ({ reactorEnergy, shipHealth, durationMs }) => {
+    const energy01 = clamp01(reactorEnergy);
+    return {
+      elapsedMs: 0,
+      durationMs,
+      energy01,
+      health01: clamp01(shipHealth),
+      inputAccel: BASE_INPUT_ACCEL * (0.6 + energy01 * 1.4), // 0.6x .. 2.0x
+      maxWind: BASE_MAX_WIND * (0.4 + energy01 * 2.0), // 0.4x .. 2.4x
+      bandSpeed: BASE_BAND_SPEED * (0.7 + energy01 * 2.0), // 0.7x .. 2.7x
+      steer: 0,
+      needlePos: 0.5,
+      needleVel: 0,
+      bandPhase: 0,
+      windAccel: 0,
+      timeSinceWindChange: 0,
+      timeInBandMs: 0,
+    };
+  },
+
+  step: (state, inputs, dtMs, rng) => {
+    const dtSec = dtMs / 1000;
+    let steer = state.steer;
+    inputs.forEach((input) => {
+      if (input.kind === "steer") steer = input.dir;
+    });
+
+    // Update wind
+    let { windAccel, timeSinceWindChange } = state;
+    timeSinceWindChange += dtMs;
+    if (timeSinceWindChange >= WIND_CHANGE_INTERVAL_MS) {
+      timeSinceWindChange = 0;
+      // New random acceleration in [-maxWind, maxWind]
+      windAccel = (rng.next() * 2 - 1) * state.maxWind;
+    }
+
+    // Apply input + wind, then friction (exponential damping), then integrate
+    let needleVel = state.needleVel + (steer * state.inputAccel + windAccel) * dtSec;
+    needleVel *= Math.exp(-FRICTION * dtSec);
+    let needlePos = state.needlePos + needleVel * dtSec;
+
+    // Clamp 0..1 and bounce a bit if we hit edges
+    if (needlePos < 0) {
+      needlePos = 0;
+      needleVel = Math.abs(needleVel) * 0.4; // bounce inward
+    } else if (needlePos > 1) {
+      needlePos = 1;
+      needleVel = -Math.abs(needleVel) * 0.4;
+    }
+
+    const next: PowerEngineerState = {
+      ...state,
+      elapsedMs: state.elapsedMs + dtMs,
+      steer,
+      needlePos,
+      needleVel,
+      bandPhase: state.bandPhase + state.bandSpeed * dtSec,
+      windAccel,
+      timeSinceWindChange,
+    };
+
+    // Track time in band
+    const bandCenter = getBandCenter(next);
+    const inBand = needlePos >= bandCenter - BAND_HALF_WIDTH && needlePos <= bandCenter + BAND_HALF_WIDTH;
+    return inBand ? { ...next, timeInBandMs: state.timeInBandMs + dtMs } : next;
+  },
+
+  percent: (state) => Math.round(clamp01(state.timeInBandMs / state.durationMs) * 100),
+
+  stats: (state) => ({
+    job: "PowerEngineer",
+    timeInBandMs: Math.round(state.timeInBandMs),
+    durationMs: state.durationMs,
+  }),
+};
@@ -0,0 +1,238 @@
+import React from "react";
+import { forkRng, type Rng } from "../game/rng";
+import type { MinigameInputSample, MinigamePauseSummary, MinigameTelemetry } from "../game/types";
+import {
+  advance,
+  getTelemetry,
+  isFinished,
+  performanceClock,
+  STEP_MS,
+  type MinigameClock,
+  type MinigameInputDraft,
+  type MinigameParams,
+  type MinigameSimulation,
+  type SimulationState,
+} from "./simulation/core";
+
+/** Draws one frame. `fxRng` feeds cosmetic randomness only. */
+export type MinigameRenderer<S> = (ctx: CanvasRenderingContext2D, state: S, fxRng: Rng) => void;
+
+/** Real time one frame may bank; a longer gap is a stall, not play. */
+const MAX_FRAME_MS = 100;
+const RESUME_COUNTDOWN_MS = 3000;
+
+type MinigameLoopOptions<S extends SimulationState> = MinigameParams & {
+  simulation: MinigameSimulation<S>;
+  render: MinigameRenderer<S>;
+  canvasRef: React.RefObject<HTMLCanvasElement>;
+  rng: Rng;
+  clock?: MinigameClock;
+  /** Keeps the run frozen while true, e.g. while a panel covers the canvas. */
+  hold?: boolean;
+  /** Called once when the run reaches its duration, with the factors it was tuned by. */
+  onFinish: (state: S, inputs: MinigameInputSample[], telemetry: MinigameTelemetry, params: MinigameParams) => void;
+};
+
+/**
+ * `pausedAt` is set from the moment a run freezes until its resume countdown
+ * ends at `resumeAt`; the whole span counts as paused time.
+ */
+type PauseClock = {
+  pausedAt: number | null;
+  resumeAt: number | null;
+  summary: MinigamePauseSummary;
+};
+
+const drawPauseOverlay = (ctx: CanvasRenderingContext2D, label: string) => {
+  const { width: w, height: h } = ctx.canvas;
+  ctx.save();
+  ctx.fillStyle = "rgba(2, 6, 23, 0.75)"; // slate-950 with alpha
+  ctx.fillRect(0, 0, w, h);
+  ctx.fillStyle = "#e5e7eb"; // gray-200
+  ctx.font = "600 28px system-ui, -apple-system, BlinkMacSystemFont, 'Inter', sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(label, w / 2, h / 2);
+  ctx.restore();
+};
+
+/**
+ * Drives a simulation from requestAnimationFrame: real time is banked and
+ * spent in fixed steps, queued inputs are stamped with the simulated time of
+ * the step that applies them, and the renderer draws the latest state.
+ *
+ * A run pauses when the tab is hidden, the window loses focus, `pause` is
+ * called or `hold` is set. The simulation banks no time while paused and
+ * resumes after a countdown; the paused time is reported with the telemetry.
+ */
+export const useMinigameLoop = <S extends SimulationState>({
+  simulation,
+  render,
+  canvasRef,
+  rng,
+  clock = performanceClock,
+  hold = false,
+  reactorEnergy,
+  shipHealth,
+  durationMs,
+  onFinish,
+}: MinigameLoopOptions<S>) => {
+  const [running, setRunning] = React.useState(false);
+  const [paused, setPaused] = React.useState(false);
+  const [resuming, setResuming] = React.useState(false);
+  const pendingRef = React.useRef<MinigameInputDraft[]>([]);
+  const runningRef = React.useRef(false);
+  const pauseRef = React.useRef<PauseClock>({ pausedAt: null, resumeAt: null, summary: { count: 0, totalMs: 0 } });
+  const holdRef = React.useRef(hold);
+  // The latest callback, so a parent re-render never restarts a run.
+  const onFinishRef = React.useRef(onFinish);
+  onFinishRef.current = onFinish;
+  // Start copies the game factors, so a reactor or hull change mid-run (an
+  // item used from the inventory, say) neither retunes nor restarts the run.
+  const factorsRef = React.useRef({ reactorEnergy, shipHealth });
+  factorsRef.current = { reactorEnergy, shipHealth };
+  const runFactorsRef = React.useRef(factorsRef.current);
+
+  const start = React.useCallback(() => {
+    runFactorsRef.current = factorsRef.current;
+    pendingRef.current = [];
+    pauseRef.current = { pausedAt: null, resumeAt: null, summary: { count: 0, totalMs: 0 } };
+    setPaused(false);
+    setResuming(false);
+    setRunning(true);
+  }, []);
+
+  const queueInput = React.useCallback((input: MinigameInputDraft) => {
+    if (runningRef.current && pauseRef.current.pausedAt == null) pendingRef.current.push(input);
+  }, []);
+
+  /** Freezes the run; pausing during a countdown cancels it. */
+  const pause = React.useCallback(() => {
+    if (!runningRef.current) return;
+    const pauseClock = pauseRef.current;
+    pauseClock.resumeAt = null;
+    if (pauseClock.pausedAt == null) {
+      pauseClock.pausedAt = clock.now();
+      // Drop inputs that have not reached a step yet.
+      pendingRef.current = [];
+    }
+    setPaused(true);
+    setResuming(false);
+  }, [clock]);
+
+  /** Starts the resume countdown, unless `hold` still keeps the run frozen. */
+  const resume = React.useCallback(() => {
+    const pauseClock = pauseRef.current;
+    if (!runningRef.current || holdRef.current || pauseClock.pausedAt == null || pauseClock.resumeAt != null) return;
+    pauseClock.resumeAt = clock.now() + RESUME_COUNTDOWN_MS;
+    setResuming(true);
+  }, [clock]);
+
+  React.useEffect(() => {
+    holdRef.current = hold;
+    if (hold) {
+      pause();
+    } else {
+      resume();
+    }
+  }, [hold, pause, resume]);
+
+  // Leaving the tab or the window freezes the run until the player resumes it.
+  React.useEffect(() => {
+    if (!running) return;
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") pause();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("blur", pause);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("blur", pause);
+    };
+  }, [running, pause]);
+
+  React.useEffect(() => {
+    runningRef.current = running;
+    if (!running) return;
+
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!ctx) return;
+
+    // Gameplay and cosmetic draws use separate streams so the number of
+    // rendered frames never shifts the simulation sequence.
+    const simRng = forkRng(rng);
+    const fxRng = forkRng(rng);
+
+    const params: MinigameParams = { ...runFactorsRef.current, durationMs };
+    let state = simulation.init(params);
+    const inputs: MinigameInputSample[] = [];
+    let last = clock.now();
+    let banked = 0;
+    let stopped = false;
+    let animationFrameId: number;
+
+    // A hold set before Start freezes the run from its first frame.
+    if (holdRef.current) pause();
+
+    const frame = () => {
+      if (stopped) return;
+      const now = clock.now();
+      const pauseClock = pauseRef.current;
+
+      if (pauseClock.pausedAt != null && pauseClock.resumeAt != null && now >= pauseClock.resumeAt) {
+        pauseClock.summary = {
+          count: pauseClock.summary.count + 1,
+          totalMs: pauseClock.summary.totalMs + Math.round(now - pauseClock.pausedAt),
+        };
+        pauseClock.pausedAt = null;
+        pauseClock.resumeAt = null;
+        setPaused(false);
+        setResuming(false);
+      }
+
+      if (pauseClock.pausedAt != null) {
+        last = now;
+        render(ctx, state, fxRng);
+        const label =
+          pauseClock.resumeAt != null ? `${Math.ceil((pauseClock.resumeAt - now) / 1000)}` : "Paused";
+        drawPauseOverlay(ctx, label);
+        animationFrameId = requestAnimationFrame(frame);
+        return;
+      }
+
+      banked += Math.min(now - last, MAX_FRAME_MS);
+      last = now;
+
+      while (banked >= STEP_MS && !isFinished(state)) {
+        banked -= STEP_MS;
+        const t = state.elapsedMs;
+        const applied = pendingRef.current.splice(0).map((input) => ({ ...input, t }) as MinigameInputSample);
+        inputs.push(...applied);
+        state = advance(simulation, state, applied, simRng);
+      }
+
+      render(ctx, state, fxRng);
+
+      if (isFinished(state)) {
+        stopped = true;
+        runningRef.current = false;
+        setRunning(false);
+        onFinishRef.current(state, inputs, getTelemetry(simulation, state, inputs, pauseClock.summary), params);
+        return;
+      }
+      animationFrameId = requestAnimationFrame(frame);
+    };
+
+    // Initial draw (before any time passes)
+    render(ctx, state, fxRng);
+    animationFrameId = requestAnimationFrame(frame);
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(animationFrameId);
+    };
+  }, [running, simulation, render, canvasRef, rng, clock, durationMs, pause]);
+
+  return { running, paused, resuming, start, queueInput, pause, resume };
+};
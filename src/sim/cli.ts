@@ -0,0 +1,159 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { BOT_DIFFICULTIES, isBotDifficulty } from "../game/bots";
+import { defaultBalanceConfig, setCachedBalanceConfig } from "../game/config";
+import { formatConfigIssue, validateBalanceConfig } from "../game/configValidation";
+import { CREW_SIZE_MAX, CREW_SIZE_MIN } from "../game/types";
+import { cardPolicies, itemPolicies } from "./policies";
+import { runSimulation, type SimulationOptions, type SimulationReport } from "./simulate";
+import { parseSkill } from "./skill";
+
+// Usage: npm run simulate -- [--matches 5000] [--balance path/to/balance.json] ...
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --balance <path>          balance.json to simulate (default public/config/balance.json)
+  --matches <n>             matches to play (default 1000)
+  --seed <n>                master seed (default 1)
+  --difficulty <level>      bot difficulty: ${BOT_DIFFICULTIES.join(" | ")} (default normal)
+  --players <n>             crew size, ${CREW_SIZE_MIN}-${CREW_SIZE_MAX} (default ${CREW_SIZE_MIN})
+  --crew-cards <policy>     ${Object.keys(cardPolicies).join(" | ")} (default bot)
+  --crew-items <policy>     ${Object.keys(itemPolicies).join(" | ")} (default help)
+  --crew-skill <dist>       fixed:N | uniform:MIN-MAX | normal:MEAN,SD (default normal:75,15)
+  --saboteur-cards <policy> (default bot)
+  --saboteur-items <policy> (default harm)
+  --saboteur-skill <dist>   (default normal:75,15)
+  --json                    print the report as JSON instead of a table
+  --out <path>              also write the JSON report to a file
+  --help                    show this message
+
+Card, item and skill options apply to every seat of that role. Sabotage
+tools follow the in-game saboteur bots at --difficulty.`;
+
+type CliArgs = Record<string, string | true>;
+
+const parseArgs = (argv: string[]): CliArgs => {
+  const args: CliArgs = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      throw new Error(`Unexpected argument "${arg}"`);
+    }
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith("--")) {
+      args[arg.slice(2)] = true;
+    } else {
+      args[arg.slice(2)] = next;
+      i += 1;
+    }
+  }
+  return args;
+};
+
+const readString = (args: CliArgs, key: string, fallback: string): string => {
+  const value = args[key];
+  if (value === true) throw new Error(`--${key} needs a value`);
+  return value ?? fallback;
+};
+
+const readInteger = (args: CliArgs, key: string, fallback: number, min: number, max = Infinity): number => {
+  const value = Number(readString(args, key, String(fallback)));
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`--${key} must be an integer ${max === Infinity ? `>= ${min}` : `in ${min}..${max}`}`);
+  }
+  return value;
+};
+
+const readDifficulty = (args: CliArgs) => {
+  const value = readString(args, "difficulty", "normal");
+  if (!isBotDifficulty(value)) {
+    throw new Error(`--difficulty must be one of ${BOT_DIFFICULTIES.join(", ")}`);
+  }
+  return value;
+};
+
+const loadBalance = (path: string) => {
+  const { config, issues } = validateBalanceConfig(JSON.parse(readFileSync(path, "utf8")), defaultBalanceConfig);
+  issues.forEach((issue) => console.error(formatConfigIssue(issue)));
+  setCachedBalanceConfig(config);
+};
+
+const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const formatTable = (rows: string[][]): string => {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows.map((row) => row.map((cell, column) => cell.padStart(widths[column])).join("  ")).join("\n");
+};
+
+const formatReport = (report: SimulationReport): string => {
+  const seat = (label: string, s: SimulationReport["crew"]) =>
+    `${label}: cards=${s.cards} items=${s.items} skill=${s.skill}`;
+  const summary = [
+    `${report.matches} matches · seed ${report.seed} · ${report.players} players · ${report.difficulty} bots`,
+    seat("Crew", report.crew),
+    seat("Saboteur", report.saboteur),
+    "",
+    `Crew win rate      ${percent(report.crewWinRate)}`,
+    `Saboteur win rate  ${percent(report.saboteurWinRate)}`,
+    `Overload rate      ${percent(report.overloadRate)} of rounds`,
+    `Average clears     ${report.averageClears.toFixed(2)}`,
+    `Average rounds     ${report.averageRounds.toFixed(2)}`,
+    "",
+    "End reasons",
+    ...Object.entries(report.endReasons).map(([reason, rate]) => `  ${reason.padEnd(19)}${percent(rate)}`),
+    "",
+  ];
+  const table = formatTable([
+    ["Round", "Reached", "Gate hit", "Clear", "Overload", "HP mean", "HP min", "HP max"],
+    ...report.rounds.map((r) => [
+      String(r.round),
+      String(r.reached),
+      percent(r.gateHitRate),
+      percent(r.clearRate),
+      percent(r.overloadRate),
+      r.shipHP.mean.toFixed(2),
+      r.shipHP.min.toFixed(1),
+      r.shipHP.max.toFixed(1),
+    ]),
+  ]);
+  return [...summary, table].join("\n");
+};
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+  loadBalance(readString(args, "balance", "public/config/balance.json"));
+
+  const options: SimulationOptions = {
+    matches: readInteger(args, "matches", 1000, 1),
+    seed: readInteger(args, "seed", 1, 0),
+    difficulty: readDifficulty(args),
+    players: readInteger(args, "players", CREW_SIZE_MIN, CREW_SIZE_MIN, CREW_SIZE_MAX),
+    crew: {
+      cards: readString(args, "crew-cards", "bot"),
+      items: readString(args, "crew-items", "help"),
+      skill: parseSkill(readString(args, "crew-skill", "normal:75,15")),
+    },
+    saboteur: {
+      cards: readString(args, "saboteur-cards", "bot"),
+      items: readString(args, "saboteur-items", "harm"),
+      skill: parseSkill(readString(args, "saboteur-skill", "normal:75,15")),
+    },
+  };
+  const report = runSimulation(options);
+
+  if (args.out !== undefined) {
+    writeFileSync(readString(args, "out", ""), `${JSON.stringify(report, null, 2)}\n`);
+  }
+  console.log(args.json ? JSON.stringify(report, null, 2) : formatReport(report));
+};
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(USAGE);
+  process.exitCode = 1;
+}
@@ -0,0 +1,86 @@
+import { createBotStrategy, helpsCrew, missDistance, type BotDifficulty } from "../game/bots";
+import { estimateCardValue } from "../game/cards";
+import type { Rng } from "../game/rng";
+import type { Card, Role } from "../game/types";
+
+// Seat behaviour for headless matches. Card policies pick the card a seat
+// commits in Plan; item policies decide whether it spends its item in Engage.
+
+export type CardPolicyContext = {
+  hand: Card[];
+  gate: number;
+  reactorLimit: number;
+  playerCount: number;
+  deckSize: number;
+  /** Expected sum of every other seat's card. */
+  expectedOthers: number;
+  role: Role;
+  difficulty: BotDifficulty;
+  rng: Rng;
+};
+
+export type CardPolicy = (context: CardPolicyContext) => Card;
+
+export type ItemPolicyContext = {
+  total: number;
+  gate: number;
+  reactorLimit: number;
+  /** Reactor change if the item resolves at SUCCESS. */
+  deltaTotal: number;
+  /** Ship health change (0..1 scale) if the item resolves at SUCCESS. */
+  deltaShip: number;
+  shipHealth01: number;
+  rng: Rng;
+};
+
+export type ItemPolicy = (context: ItemPolicyContext) => boolean;
+
+// Cards are ranked by what they are expected to add to the total.
+const highest = (hand: Card[]) =>
+  hand.reduce((best, card) => (estimateCardValue(card) > estimateCardValue(best) ? card : best));
+const lowest = (hand: Card[]) =>
+  hand.reduce((best, card) => (estimateCardValue(card) < estimateCardValue(best) ? card : best));
+
+export const cardPolicies: Record<string, CardPolicy> = {
+  // The in-game bot strategy for the seat's role at the chosen difficulty.
+  bot: ({ role, difficulty, ...view }) => createBotStrategy(role, difficulty).chooseCard(view),
+  random: ({ hand, rng }) => hand[Math.floor(rng.next() * hand.length)],
+  high: ({ hand }) => highest(hand),
+  low: ({ hand }) => lowest(hand),
+  // Aims the expected total at the middle of the clear window.
+  target: ({ hand, gate, reactorLimit, expectedOthers }) => {
+    const goal = (gate + reactorLimit) / 2 - expectedOthers;
+    const miss = (card: Card) => Math.abs(estimateCardValue(card) - goal);
+    return hand.reduce((best, card) => (miss(card) < miss(best) ? card : best));
+  },
+  // Pushes toward whichever edge of the window is closer to breaking.
+  spoiler: ({ hand, gate, reactorLimit, expectedOthers }) => {
+    const high = highest(hand);
+    const low = lowest(hand);
+    const overshoot =
+      reactorLimit - (expectedOthers + estimateCardValue(high)) <= expectedOthers + estimateCardValue(low) - gate;
+    return overshoot ? high : low;
+  },
+};
+
+export const itemPolicies: Record<string, ItemPolicy> = {
+  never: () => false,
+  always: () => true,
+  // The crew bots' own test: toward the window, or a free hull repair.
+  help: helpsCrew,
+  // Uses the item only when it moves the total away from the window.
+  harm: ({ total, gate, reactorLimit, deltaTotal }) =>
+    missDistance(total + deltaTotal, gate, reactorLimit) > missDistance(total, gate, reactorLimit),
+};
+
+const lookup = <T>(registry: Record<string, T>, name: string, kind: string): T => {
+  const policy = Object.prototype.hasOwnProperty.call(registry, name) ? registry[name] : undefined;
+  if (!policy) {
+    throw new Error(`Unknown ${kind} policy "${name}" (expected one of ${Object.keys(registry).join(", ")})`);
+  }
+  return policy;
+};
+
+export const getCardPolicy = (name: string): CardPolicy => lookup(cardPolicies, name, "card");
+
+export const getItemPolicy = (name: string): ItemPolicy => lookup(itemPolicies, name, "item");
@@ -0,0 +1,289 @@
+import { createBotStrategy, type BotDifficulty } from "../game/bots";
+import { getCachedBalanceConfig } from "../game/config";
+import {
+  createGameState,
+  getLocalPlayer,
+  getRoundOutcome,
+  getShipHealth01,
+  reduce,
+  type BotStrategyFactory,
+  type GameAction,
+  type GameState,
+} from "../game/engine";
+import { getItemEffect } from "../game/itemCatalog";
+import { getMatchResult, MATCH_END_REASONS, type MatchEndReason } from "../game/matchResult";
+import { createRng, forkRng, nextSeed, type Rng } from "../game/rng";
+import type { Player } from "../game/types";
+import { getCardPolicy, getItemPolicy, type CardPolicy, type ItemPolicy } from "./policies";
+import { formatSkill, sampleSkill, type SkillDistribution } from "./skill";
+
+// Monte Carlo runner: plays whole matches through the engine's reducer so the
+// numbers always reflect the live rules and the cached balance config.
+
+export type SeatSetup = {
+  cards: string;
+  items: string;
+  skill: SkillDistribution;
+};
+
+export type SimulationOptions = {
+  matches: number;
+  seed: number;
+  difficulty: BotDifficulty;
+  /** Seats at the table, the local seat included. */
+  players: number;
+  crew: SeatSetup;
+  saboteur: SeatSetup;
+};
+
+type RoundRecord = {
+  total: number;
+  gate: number;
+  reactorLimit: number;
+  shipHP: number;
+};
+
+type MatchRecord = {
+  crewWin: boolean;
+  reason: MatchEndReason | null;
+  clears: number;
+  rounds: RoundRecord[];
+};
+
+export type RoundStats = {
+  round: number;
+  /** Matches that played this round. */
+  reached: number;
+  /** Share of those rounds whose total reached the Gate (overloads included). */
+  gateHitRate: number;
+  clearRate: number;
+  overloadRate: number;
+  /** Ship HP after the round resolved. */
+  shipHP: { mean: number; min: number; max: number };
+};
+
+export type SimulationReport = {
+  matches: number;
+  seed: number;
+  difficulty: BotDifficulty;
+  players: number;
+  crew: { cards: string; items: string; skill: string };
+  saboteur: { cards: string; items: string; skill: string };
+  crewWinRate: number;
+  saboteurWinRate: number;
+  /** Share of all played rounds that overloaded. */
+  overloadRate: number;
+  averageClears: number;
+  averageRounds: number;
+  /** Share of matches that ended for each reason. */
+  endReasons: Record<MatchEndReason, number>;
+  rounds: RoundStats[];
+};
+
+type SeatPolicies = { cards: CardPolicy; items: ItemPolicy; skill: SkillDistribution };
+
+// A match can never need more reducer steps than this; hitting it means the
+// engine stopped accepting the simulator's actions.
+const MAX_STEPS = 1000;
+
+const roundRate = (value: number) => Math.round(value * 10000) / 10000;
+
+const simulateMatch = (
+  seed: number,
+  difficulty: BotDifficulty,
+  players: number,
+  crew: SeatPolicies,
+  saboteur: SeatPolicies,
+  rng: Rng,
+): MatchRecord => {
+  const balance = getCachedBalanceConfig();
+  let state: GameState = createGameState(seed);
+  const seat = (player: Player) => (player.role === "Saboteur" ? saboteur : crew);
+  // Bot seats keep the in-game sabotage and votes but run stations and
+  // items on the seat policies, the same as the local seat below.
+  const botStrategy: BotStrategyFactory = (player, botDifficulty) => {
+    const policies = seat(player);
+    return {
+      ...createBotStrategy(player.role, botDifficulty),
+      runStation: () => sampleSkill(policies.skill, rng),
+      runItemCheck: () => sampleSkill(policies.skill, rng),
+      useItem: (view) => policies.items({ ...view, rng }),
+    };
+  };
+  const run = (action: GameAction) => {
+    state = reduce(state, action, { botStrategy });
+  };
+  const rounds: RoundRecord[] = [];
+
+  run({ type: "lobby.setDifficulty", difficulty });
+  run({ type: "lobby.setCrewSize", size: players });
+  run({ type: "lobby.ready" });
+  run({ type: "roleReveal.continue" });
+
+  for (let step = 0; state.phase !== "GameOver"; step += 1) {
+    if (step >= MAX_STEPS) {
+      throw new Error(`Match ${seed} stalled in ${state.phase}`);
+    }
+    const { round, reactorLimit } = state;
+    switch (state.phase) {
+      case "Plan": {
+        const localPlayer = getLocalPlayer(state);
+        const expectedOthers = ((state.players.length - 1) * (balance.deckSize + 1)) / 2;
+        const botCards: Record<string, string> = {};
+        state.players.forEach((player) => {
+          const isLocal = player.id === localPlayer?.id;
+          const hand = isLocal ? state.hand : state.botHands[player.id] ?? [];
+          const card = seat(player).cards({
+            hand,
+            gate: round.gate,
+            reactorLimit,
+            playerCount: state.players.length,
+            deckSize: balance.deckSize,
+            expectedOthers,
+            role: player.role,
+            difficulty,
+            rng,
+          });
+          if (isLocal) {
+            run({ type: "plan.chooseCard", cardId: card.id });
+          } else {
+            botCards[player.id] = card.id;
+          }
+        });
+        run({ type: "plan.lock", botCards });
+        break;
+      }
+      case "Ignition":
+        run({ type: "ignition.proceed" });
+        break;
+      case "Engage": {
+        // Bots have already run their stations inside the engine through
+        // `botStrategy`; only the local seat still plays its items and
+        // minigames here.
+        const localPlayer = getLocalPlayer(state);
+        localPlayer?.items
+          .filter((item) => !item.used && item.timing === "Engage")
+          .forEach((item) => {
+            const total = state.round.totalAfterItems;
+            const { deltaTotal, deltaShipHealth01 } = getItemEffect({
+              itemId: item.id,
+              tier: "SUCCESS",
+              isBelowGate: total < state.round.gate,
+              balance,
+            });
+            const context = {
+              total,
+              gate: state.round.gate,
+              reactorLimit,
+              deltaTotal,
+              deltaShip: deltaShipHealth01,
+              shipHealth01: getShipHealth01(state),
+              rng,
+            };
+            if (seat(localPlayer).items(context)) {
+              run({ type: "engage.useItem", playerId: localPlayer.id, itemId: item.id });
+            }
+          });
+        while (state.phase === "Engage" && state.activeMinigame) {
+          const runnerId = state.activeMinigame.playerId;
+          const runner = state.players.find((player) => player.id === runnerId);
+          const percentFinished = runner ? sampleSkill(seat(runner).skill, rng) : 0;
+          run({ type: "engage.completeMinigame", percentFinished });
+        }
+        if (state.phase === "Engage") {
+          run({ type: "engage.completeMinigame", percentFinished: 0 });
+        }
+        break;
+      }
+      case "Maintenance": {
+        const record = { total: round.totalAfterItems, gate: round.gate, reactorLimit };
+        run({ type: "maintenance.resolve" });
+        rounds.push({ ...record, shipHP: state.shipHP });
+        break;
+      }
+      default:
+        throw new Error(`Match ${seed} reached unexpected phase ${state.phase}`);
+    }
+  }
+
+  const result = getMatchResult(state, balance);
+  return { crewWin: result?.winner === "Crew", reason: result?.reason ?? null, clears: state.clears, rounds };
+};
+
+const summarizeRounds = (records: MatchRecord[]): RoundStats[] => {
+  const longest = Math.max(0, ...records.map((record) => record.rounds.length));
+  return Array.from({ length: longest }, (_, index) => {
+    const played = records.map((record) => record.rounds[index]).filter((r): r is RoundRecord => Boolean(r));
+    const outcomes = played.map((r) => getRoundOutcome(r.total, r.gate, r.reactorLimit));
+    const hp = played.map((r) => r.shipHP);
+    const share = (count: number) => roundRate(count / played.length);
+    return {
+      round: index + 1,
+      reached: played.length,
+      gateHitRate: share(played.filter((r) => r.total >= r.gate).length),
+      clearRate: share(outcomes.filter((outcome) => outcome === "Clear").length),
+      overloadRate: share(outcomes.filter((outcome) => outcome === "Overload").length),
+      shipHP: {
+        mean: roundRate(hp.reduce((sum, value) => sum + value, 0) / hp.length),
+        min: Math.min(...hp),
+        max: Math.max(...hp),
+      },
+    };
+  });
+};
+
+const toSeatPolicies = (setup: SeatSetup): SeatPolicies => ({
+  cards: getCardPolicy(setup.cards),
+  items: getItemPolicy(setup.items),
+  skill: setup.skill,
+});
+
+const describeSeat = (setup: SeatSetup) => ({
+  cards: setup.cards,
+  items: setup.items,
+  skill: formatSkill(setup.skill),
+});
+
+/**
+ * Plays `options.matches` matches under the cached balance config. The same
+ * options and seed always produce the same report.
+ */
+export const runSimulation = (options: SimulationOptions): SimulationReport => {
+  const crew = toSeatPolicies(options.crew);
+  const saboteur = toSeatPolicies(options.saboteur);
+  const rng = createRng(options.seed);
+
+  const records = Array.from({ length: options.matches }, () =>
+    simulateMatch(nextSeed(rng), options.difficulty, options.players, crew, saboteur, forkRng(rng)),
+  );
+
+  const crewWins = records.filter((record) => record.crewWin).length;
+  const roundsPlayed = records.reduce((sum, record) => sum + record.rounds.length, 0);
+  const overloads = records.reduce(
+    (sum, record) =>
+      sum + record.rounds.filter((r) => getRoundOutcome(r.total, r.gate, r.reactorLimit) === "Overload").length,
+    0,
+  );
+  const matches = Math.max(records.length, 1);
+
+  return {
+    matches: records.length,
+    seed: options.seed,
+    difficulty: options.difficulty,
+    players: options.players,
+    crew: describeSeat(options.crew),
+    saboteur: describeSeat(options.saboteur),
+    crewWinRate: roundRate(crewWins / matches),
+    saboteurWinRate: roundRate((records.length - crewWins) / matches),
+    overloadRate: roundRate(overloads / Math.max(roundsPlayed, 1)),
+    averageClears: roundRate(records.reduce((sum, record) => sum + record.clears, 0) / matches),
+    averageRounds: roundRate(roundsPlayed / matches),
+    endReasons: Object.fromEntries(
+      MATCH_END_REASONS.map((reason) => [
+        reason,
+        roundRate(records.filter((record) => record.reason === reason).length / matches),
+      ]),
+    ) as Record<MatchEndReason, number>,
+    rounds: summarizeRounds(records),
+  };
+};
@@ -0,0 +1,51 @@
+import { nextGaussian, type Rng } from "../game/rng";
+
+// Minigame skill as a distribution of percentFinished values (0..100).
+
+export type SkillDistribution =
+  | { kind: "fixed"; value: number }
+  | { kind: "uniform"; min: number; max: number }
+  | { kind: "normal"; mean: number; sd: number };
+
+const clampPercent = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+/**
+ * Parses `fixed:80`, `uniform:40-100` or `normal:70,15`.
+ */
+export const parseSkill = (spec: string): SkillDistribution => {
+  const [kind, args = ""] = spec.split(":");
+  const numbers = args.split(/[-,]/).map(Number);
+  const valid = numbers.every((n) => Number.isFinite(n));
+  if (kind === "fixed" && numbers.length === 1 && valid) {
+    return { kind, value: numbers[0] };
+  }
+  if (kind === "uniform" && numbers.length === 2 && valid && numbers[0] <= numbers[1]) {
+    return { kind, min: numbers[0], max: numbers[1] };
+  }
+  if (kind === "normal" && numbers.length === 2 && valid && numbers[1] >= 0) {
+    return { kind, mean: numbers[0], sd: numbers[1] };
+  }
+  throw new Error(`Invalid skill "${spec}" (expected fixed:N, uniform:MIN-MAX or normal:MEAN,SD)`);
+};
+
+export const formatSkill = (skill: SkillDistribution): string => {
+  switch (skill.kind) {
+    case "fixed":
+      return `fixed:${skill.value}`;
+    case "uniform":
+      return `uniform:${skill.min}-${skill.max}`;
+    case "normal":
+      return `normal:${skill.mean},${skill.sd}`;
+  }
+};
+
+export const sampleSkill = (skill: SkillDistribution, rng: Rng): number => {
+  switch (skill.kind) {
+    case "fixed":
+      return clampPercent(skill.value);
+    case "uniform":
+      return clampPercent(skill.min + rng.next() * (skill.max - skill.min));
+    case "normal":
+      return clampPercent(skill.mean + skill.sd * nextGaussian(rng));
+  }
+};
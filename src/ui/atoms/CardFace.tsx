@@ -0,0 +1,47 @@
+import React from "react";
+import { describeCard, getCardFace } from "../../game/cards";
+import type { Card, CardKind } from "../../game/types";
+import { Tooltip } from "./Tooltip";
+
+export type CardFaceProps = {
+  card: Card;
+  size?: "sm" | "lg";
+  onClick?: () => void;
+};
+
+const kindStyles: Record<CardKind, string> = {
+  power: "bg-slate-900 border-slate-700 text-slate-100",
+  coolant: "bg-sky-950 border-sky-500/70 text-sky-200",
+  wild: "bg-fuchsia-950 border-fuchsia-500/70 text-fuchsia-200",
+  double: "bg-amber-950 border-amber-500/70 text-amber-200",
+  null: "bg-slate-950 border-slate-500 text-slate-400",
+};
+
+const kindLabels: Partial<Record<CardKind, string>> = {
+  coolant: "Cool",
+  wild: "Wild",
+  double: "Dbl",
+  null: "Null",
+};
+
+export const CardFace: React.FC<CardFaceProps> = ({ card, size = "sm", onClick }) => {
+  const sizeClass = size === "lg" ? "w-14 h-20 text-lg" : "w-10 h-14 text-sm";
+  const className = `${sizeClass} rounded-xl border flex flex-col items-center justify-center font-semibold ${kindStyles[card.kind]}`;
+  const face = (
+    <>
+      <span>{getCardFace(card)}</span>
+      {kindLabels[card.kind] && <span className="text-[8px] uppercase tracking-wide opacity-80">{kindLabels[card.kind]}</span>}
+    </>
+  );
+  return (
+    <Tooltip label={describeCard(card)}>
+      {onClick ? (
+        <button onClick={onClick} className={className}>
+          {face}
+        </button>
+      ) : (
+        <span className={className}>{face}</span>
+      )}
+    </Tooltip>
+  );
+};
@@ -0,0 +1,41 @@
+import React from "react";
+import type { ConfigIssue } from "../../game/configValidation";
+
+type ConfigIssuesBannerProps = {
+  issues: ConfigIssue[];
+  onDismiss: () => void;
+};
+
+export const ConfigIssuesBanner: React.FC<ConfigIssuesBannerProps> = ({ issues, onDismiss }) => {
+  const errorCount = issues.filter((issue) => issue.severity === "error").length;
+  const hasErrors = errorCount > 0;
+
+  return (
+    <div
+      role="alert"
+      className={`w-full rounded-2xl border p-3 text-[11px] ${
+        hasErrors ? "bg-red-950/80 border-red-500/70" : "bg-amber-950/70 border-amber-500/60"
+      }`}
+    >
+      <div className="flex justify-between items-center mb-1.5">
+        <span className="font-semibold text-slate-100">
+          balance.json: {errorCount} error{errorCount === 1 ? "" : "s"}, {issues.length - errorCount} warning
+          {issues.length - errorCount === 1 ? "" : "s"}
+        </span>
+        <button
+          onClick={onDismiss}
+          className="h-5 w-5 rounded-full bg-slate-900 border border-slate-600 flex items-center justify-center text-[10px] text-slate-300"
+        >
+          ✕
+        </button>
+      </div>
+      <ul className="space-y-0.5 max-h-32 overflow-y-auto font-mono">
+        {issues.map((issue, idx) => (
+          <li key={idx} className={issue.severity === "error" ? "text-red-300" : "text-amber-200"}>
+            {issue.path || "(root)"}: {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
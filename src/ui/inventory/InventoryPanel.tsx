@@ -1,69 +1,74 @@
 import React from "react";
+import { getCachedBalanceConfig } from "../../game/config";
+import { describeItem, getItemDefinition } from "../../game/itemCatalog";
+import { describeSabotageTool, isItemJammed, SABOTAGE_TOOLS } from "../../game/sabotage";
 import type {
-  ItemId,
+  ItemDefinition,
   ItemInstance,
   Job,
   Phase,
   Player,
+  RoundState,
+  SabotageToolId,
 } from "../../game/types";
 import { Tooltip } from "../atoms/Tooltip";
 
 type InventoryPanelProps = {
   localPlayer: Player;
+  /** Everyone at the table; SCAN picks its target from here. */
+  players: Player[];
   phase: Phase;
+  /** Seats the Tribunal removed; they neither act nor make targets. */
+  ejected: string[];
+  /** Jams on the local player's items and this round's sabotage uses. */
+  round: Pick<RoundState, "sabotage">;
   onClose: () => void;
-  onUseItem: (item: ItemInstance) => void;
+  /** `targetId` is set for items that look at another seat. */
+  onUseItem: (item: ItemInstance, targetId?: string) => void;
+  onUseSabotage: (toolId: SabotageToolId, targetId?: string) => void;
   jobLabel: (job: Job) => string;
 };
 
-const itemDescription = (id: ItemId): string => {
-  switch (id) {
-    case "BOOST":
-      return "+3 to the reactor total this round.";
-    case "VENT":
-      return "-3 to the reactor total, easing overload risk.";
-    case "EQUALIZER":
-      return "If below Gate: +2. Otherwise: -2 to the reactor total.";
-    default:
-      return "";
-  }
-};
-
-const ItemIcon: React.FC<{ id: ItemId }> = ({ id }) => {
-  const strokeClass =
-    id === "BOOST"
-      ? "text-amber-300"
-      : id === "VENT"
-      ? "text-sky-300"
-      : "text-emerald-300";
-
-  const pathD =
-    id === "BOOST"
-      ? "M8 2 L13 8 L8 14 L3 8 Z"
-      : id === "VENT"
-      ? "M3 4 H13 V12 H3 Z"
-      : "M2 12 C4 4, 9 14, 14 3";
-
-  return (
-    <svg
-      className={`h-4 w-4 ${strokeClass}`}
-      viewBox="0 0 16 16"
-      fill="none"
-      strokeWidth={1.5}
-    >
-      <path d={pathD} stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" />
-    </svg>
-  );
-};
+const ItemIcon: React.FC<{ definition?: Pick<ItemDefinition, "icon"> }> = ({ definition }) => (
+  <svg
+    className="h-4 w-4 text-slate-300"
+    style={definition ? { color: definition.icon.color } : undefined}
+    viewBox="0 0 16 16"
+    fill="none"
+    strokeWidth={1.5}
+  >
+    <path
+      d={definition?.icon.path ?? "M4 4 H12 V12 H4 Z"}
+      stroke="currentColor"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  </svg>
+);
 
 export const InventoryPanel: React.FC<InventoryPanelProps> = ({
   localPlayer,
+  players,
   phase,
+  ejected,
+  round,
   onClose,
   onUseItem,
+  onUseSabotage,
   jobLabel,
 }) => {
-  const canUseItems = phase === "Engage";
+  const balance = getCachedBalanceConfig();
+  const isEjected = ejected.includes(localPlayer.id);
+  const aboard = players.filter((p) => !ejected.includes(p.id));
+  const others = aboard.filter((p) => p.id !== localPlayer.id);
+  const [targetChoice, setTargetId] = React.useState(others[0]?.id ?? "");
+  const [sabotageTargets, setSabotageTargets] = React.useState<Partial<Record<SabotageToolId, string>>>({});
+  // A pick made before a Tribunal falls back once that seat is ejected.
+  const pickAboard = (targets: Player[], choice: string | undefined) =>
+    choice && targets.some((p) => p.id === choice) ? choice : targets[0]?.id ?? "";
+  const targetId = pickAboard(others, targetChoice);
+  // Only a saboteur's own panel ever lists the toolkit.
+  const sabotage = localPlayer.role === "Saboteur" ? localPlayer.sabotage : [];
 
   return (
     <div className="absolute top-2 right-2 w-56 sm:w-60 rounded-2xl bg-slate-950/95 border border-slate-700 shadow-xl p-3 z-50">
@@ -86,11 +91,22 @@ export const InventoryPanel: React.FC<InventoryPanelProps> = ({
           <div className="text-[11px] text-slate-500">No station items.</div>
         )}
         {localPlayer.items.map((item) => {
-          const isUsable = canUseItems && !item.used && item.timing === "Engage";
+          const definition = getItemDefinition(balance, item.id);
+          const inTiming = item.timing === phase;
+          const isJammed = isItemJammed(round, localPlayer.id, item.id);
+          const isUsable = !isEjected && inTiming && !item.used && !isJammed;
+          const needsTarget = definition?.effect.kind === "scan";
           const tooltipContent = (
             <span className="flex flex-col gap-0.5 text-[10px] text-slate-100">
-              <span>{itemDescription(item.id)}</span>
-              {!canUseItems && <span className="text-slate-400">Usable during ENGAGE.</span>}
+              <span>{definition ? describeItem(definition) : ""}</span>
+              {!inTiming && <span className="text-slate-400">Usable during {item.timing.toUpperCase()}.</span>}
+              {isJammed && <span className="text-red-300">Jammed for this round.</span>}
+              {isEjected && <span className="text-slate-400">Ejected seats sit out.</span>}
+              {definition && definition.skillCheckMs > 0 && (
+                <span className="text-slate-400">
+                  Runs a {Math.round(definition.skillCheckMs / 1000)}s skill check; its result scales the effect.
+                </span>
+              )}
             </span>
           );
 
@@ -101,7 +117,7 @@ export const InventoryPanel: React.FC<InventoryPanelProps> = ({
                   type="button"
                   onClick={() => {
                     if (isUsable) {
-                      onUseItem(item);
+                      onUseItem(item, needsTarget ? targetId : undefined);
                     }
                   }}
                   className={`w-full flex items-center justify-between px-2 py-1.5 rounded-lg border text-[11px] transition-colors ${
@@ -113,15 +129,98 @@ export const InventoryPanel: React.FC<InventoryPanelProps> = ({
                   }`}
                 >
                   <div className="flex items-center gap-1.5">
-                    <ItemIcon id={item.id} />
+                    <ItemIcon definition={definition} />
                     <span className="font-semibold">{item.name}</span>
                   </div>
-                  <span className="text-[9px] uppercase tracking-wide text-slate-400">{item.timing}</span>
+                  <span className={`text-[9px] uppercase tracking-wide ${isJammed ? "text-red-300" : "text-slate-400"}`}>
+                    {isJammed ? "Jammed" : item.timing}
+                  </span>
                 </button>
               </Tooltip>
+              {needsTarget && isUsable && (
+                <select
+                  value={targetId}
+                  onChange={(e) => setTargetId(e.target.value)}
+                  aria-label={`${item.name} target`}
+                  className="w-full px-2 py-1 rounded-lg bg-slate-900 border border-slate-700 text-[11px] text-slate-200"
+                >
+                  {others.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              )}
             </div>
           );
         })}
+        {sabotage.length > 0 && (
+          <div className="pt-2 mt-1 border-t border-red-900/70 space-y-2">
+            <div className="text-[10px] uppercase tracking-wide text-red-300">Sabotage · only you can see this</div>
+            {sabotage.map((tool) => {
+              const info = SABOTAGE_TOOLS[tool.id];
+              const usedThisRound = round.sabotage.some(
+                (use) => use.playerId === localPlayer.id && use.toolId === tool.id,
+              );
+              const inTiming = info.timing === phase;
+              const isUsable = !isEjected && inTiming && tool.usesLeft > 0 && !usedThisRound;
+              const targets = info.target === "any" ? aboard : others;
+              const toolTarget = pickAboard(targets, sabotageTargets[tool.id]);
+              const tooltipContent = (
+                <span className="flex flex-col gap-0.5 text-[10px] text-slate-100">
+                  <span>{describeSabotageTool(tool.id, balance)}</span>
+                  {!inTiming && <span className="text-slate-400">Usable during {info.timing.toUpperCase()}.</span>}
+                  {usedThisRound && <span className="text-slate-400">Already used this round.</span>}
+                  {isEjected && <span className="text-slate-400">Ejected seats sit out.</span>}
+                </span>
+              );
+
+              return (
+                <div key={tool.id} className="flex flex-col gap-1">
+                  <Tooltip label={tooltipContent} className="w-full">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        if (isUsable) {
+                          onUseSabotage(tool.id, info.target === "none" ? undefined : toolTarget);
+                        }
+                      }}
+                      className={`w-full flex items-center justify-between px-2 py-1.5 rounded-lg border text-[11px] transition-colors ${
+                        tool.usesLeft <= 0
+                          ? "bg-slate-900 border-slate-800 text-slate-500 line-through"
+                          : isUsable
+                          ? "bg-red-600/10 border-red-400/70 text-slate-100"
+                          : "bg-slate-900 border-red-900/70 text-slate-200"
+                      }`}
+                    >
+                      <div className="flex items-center gap-1.5">
+                        <ItemIcon definition={info} />
+                        <span className="font-semibold">{info.name}</span>
+                      </div>
+                      <span className="text-[9px] uppercase tracking-wide text-slate-400">
+                        {tool.usesLeft} left · {info.timing}
+                      </span>
+                    </button>
+                  </Tooltip>
+                  {info.target !== "none" && isUsable && (
+                    <select
+                      value={toolTarget}
+                      onChange={(e) => setSabotageTargets((current) => ({ ...current, [tool.id]: e.target.value }))}
+                      aria-label={`${info.name} target`}
+                      className="w-full px-2 py-1 rounded-lg bg-slate-900 border border-red-900/70 text-[11px] text-slate-200"
+                    >
+                      {targets.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.id === localPlayer.id ? `${p.name} (You)` : p.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
     </div>
   );
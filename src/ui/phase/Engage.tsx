@@ -52,13 +52,16 @@ const Engage: React.FC<PhaseComponentProps> = ({ state, localPlayer, players, he
         <div className="text-[11px] text-slate-400 uppercase tracking-wide mb-2">Crew readiness</div>
         <div className="flex flex-col gap-1.5 text-sm">
           {players.map((player) => {
-            const ready = player.items.some((item) => !item.used && item.timing === "Engage");
+            const isEjected = state.ejected.includes(player.id);
+            const ready = !isEjected && player.items.some((item) => !item.used && item.timing === "Engage");
             return (
               <div key={player.id} className="flex justify-between text-slate-200">
                 <span>
                   {player.name} · {jobLabel(player.job)}
                 </span>
-                <span className={ready ? "text-emerald-400" : "text-slate-500"}>{ready ? "Active" : "Spent"}</span>
+                <span className={ready ? "text-emerald-400" : "text-slate-500"}>
+                  {isEjected ? "Ejected" : ready ? "Active" : "Spent"}
+                </span>
               </div>
             );
           })}
@@ -3,27 +3,85 @@ import type { PhaseComponentProps } from "./types";
 
 const GameOver: React.FC<PhaseComponentProps> = ({ state, dispatchEvent, players, helpers }) => {
   const { jobLabel } = helpers;
-  const { clears, overloads } = state;
-  const crewWin = clears >= 4 && overloads < 2;
+  const { clears, overloads, seed, roundsMax, roundIndex, shipHP, result, tribunals, ejected } = state;
+  const nameOf = (playerId: string) => players.find((p) => p.id === playerId)?.name ?? "Unknown";
+  const crewWin = result?.winner === "Crew";
+  const hullDestroyed = result?.reason === "hullDestroyed";
   const title = crewWin ? "Crew Victory" : "Saboteur Victory";
   const color = crewWin ? "bg-emerald-900/60 border-emerald-500" : "bg-red-900/60 border-red-500";
 
   return (
     <div className="flex flex-col items-center gap-4 w-full max-w-md">
-      <div className={`w-full rounded-2xl border p-4 ${color}`}>
-        <h2 className="text-xl font-semibold mb-1">{title}</h2>
-        <p className="text-sm text-slate-100">Clears {clears} / 6 · Overloads {overloads}</p>
-      </div>
+      {hullDestroyed ? (
+        // A hull breach gets its own screen: the ship is gone, not just the round lost.
+        <div className="w-full rounded-2xl border border-orange-500 bg-gradient-to-b from-orange-950/80 to-slate-950 p-4 text-center">
+          <div className="text-[10px] uppercase tracking-[0.3em] text-orange-300">Hull Breach</div>
+          <h2 className="text-2xl font-semibold mt-1">Ship Destroyed</h2>
+          <p className="text-sm text-slate-200 mt-1">
+            The hull gave out in round {roundIndex}. Saboteur victory.
+          </p>
+          <p className="text-[11px] text-slate-400 mt-1">
+            Clears {clears} / {roundsMax} · Overloads {overloads} · Ship HP {shipHP}
+          </p>
+          <p className="text-[11px] text-slate-400 mt-1 font-mono">Seed {seed}</p>
+        </div>
+      ) : (
+        <div className={`w-full rounded-2xl border p-4 ${color}`}>
+          <h2 className="text-xl font-semibold mb-1">{title}</h2>
+          {result && <p className="text-sm text-slate-100">{result.label}</p>}
+          <p className="text-[11px] text-slate-200 mt-1">Clears {clears} / {roundsMax} · Overloads {overloads}</p>
+          <p className="text-[11px] text-slate-300 mt-1 font-mono">Seed {seed}</p>
+        </div>
+      )}
       <div className="w-full rounded-2xl bg-slate-950/80 border border-slate-700 p-3">
         <h3 className="text-sm font-semibold mb-1">Final roles</h3>
         <ul className="space-y-1 text-[11px] text-slate-300">
           {players.map((p) => (
             <li key={p.id}>
-              {p.name} — {p.role} ({jobLabel(p.job)})
+              {p.name} — {p.role} ({jobLabel(p.job)}){ejected.includes(p.id) && " · ejected"}
             </li>
           ))}
         </ul>
       </div>
+      {tribunals.length > 0 && (
+        <div className="w-full rounded-2xl bg-slate-950/80 border border-slate-700 p-3">
+          <h3 className="text-sm font-semibold mb-1">Tribunal votes</h3>
+          <ul className="space-y-2 text-[11px] text-slate-300">
+            {tribunals.map((record) => (
+              <li key={record.roundIndex}>
+                <div className="text-slate-100">
+                  Round {record.roundIndex}: {record.ejectedId ? `${nameOf(record.ejectedId)} ejected` : "no one ejected"}
+                </div>
+                <div className="text-slate-400">
+                  {Object.entries(record.votes)
+                    .map(([voterId, targetId]) => `${nameOf(voterId)} → ${targetId ? nameOf(targetId) : "skip"}`)
+                    .join(" · ")}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {(helpers.downloadMatchLog || helpers.openReplay) && (
+        <div className="flex gap-2">
+          {helpers.openReplay && (
+            <button
+              onClick={helpers.openReplay}
+              className="px-3 py-1.5 rounded-lg bg-slate-900 text-xs font-semibold border border-slate-700"
+            >
+              Watch Replay
+            </button>
+          )}
+          {helpers.downloadMatchLog && (
+            <button
+              onClick={helpers.downloadMatchLog}
+              className="px-3 py-1.5 rounded-lg bg-slate-900 text-xs font-semibold border border-slate-700"
+            >
+              Download Log
+            </button>
+          )}
+        </div>
+      )}
       <button
         onClick={() => dispatchEvent("gameOver.restart")}
         className="px-4 py-2 rounded-lg bg-slate-800 text-sm font-semibold border border-slate-600"
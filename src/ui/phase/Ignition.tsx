@@ -2,7 +2,7 @@ import React from "react";
 import type { PhaseComponentProps } from "./types";
 
 const Ignition: React.FC<PhaseComponentProps> = ({ state, dispatchEvent, localPlayer, players, helpers }) => {
-  const { RoundHeader, energyLabel } = helpers;
+  const { RoundHeader, CardFace, energyLabel } = helpers;
   const { round, reactorLimit, shipHealth01 } = state;
   const total = round.totalBeforeItems;
   const energy = round.reactorEnergy01;
@@ -17,16 +17,24 @@ const Ignition: React.FC<PhaseComponentProps> = ({ state, dispatchEvent, localPl
         enginePower={round.totalAfterItems}
       />
       <div className="rounded-2xl bg-slate-950/90 border border-slate-800 p-3 flex flex-col gap-2">
-        <div className="flex justify-between text-sm">
-          <span>Your card</span>
-          <span className="font-semibold text-emerald-400">{round.cardsPlayed[localPlayer.id]}</span>
-        </div>
-        {otherPlayers.map((p) => (
-          <div key={p.id} className="flex justify-between text-sm text-slate-200">
-            <span>{p.name}</span>
-            <span className="font-semibold">{round.cardsPlayed[p.id]}</span>
-          </div>
-        ))}
+        {[localPlayer, ...otherPlayers].map((p) => {
+          const card = round.cardsPlayed[p.id];
+          const value = round.cardValues[p.id] ?? 0;
+          return (
+            <div key={p.id} className="flex justify-between items-center text-sm text-slate-200">
+              <span className={p.id === localPlayer.id ? "text-emerald-400" : undefined}>
+                {p.id === localPlayer.id ? "Your card" : p.name}
+              </span>
+              <span className="flex items-center gap-2">
+                <span className="text-[11px] text-slate-400">{value > 0 ? `+${value}` : value}</span>
+                {card ? <CardFace card={card} /> : <span className="text-slate-500">—</span>}
+              </span>
+            </div>
+          );
+        })}
+        <p className="text-[10px] text-slate-500">
+          Wilds roll first, then nulls cancel and doubles multiply the next seat's card.
+        </p>
       </div>
       <div className="rounded-xl bg-slate-950/80 border border-slate-800 p-3 flex justify-between items-center">
         <div className="text-sm text-slate-200">
@@ -1,10 +1,23 @@
 import React from "react";
 import type { PhaseComponentProps } from "./types";
-import { JOBS } from "../../game/types";
+import { BOT_DIFFICULTIES } from "../../game/bots";
+import { getSaboteurCount } from "../../game/setup";
+import { CREW_SIZE_MAX, CREW_SIZE_MIN, JOBS } from "../../game/types";
 
-const Lobby: React.FC<PhaseComponentProps> = ({ dispatchEvent, localPlayer, helpers }) => (
+const CREW_SIZES = Array.from({ length: CREW_SIZE_MAX - CREW_SIZE_MIN + 1 }, (_, i) => CREW_SIZE_MIN + i);
+
+const Lobby: React.FC<PhaseComponentProps> = ({ state, dispatchEvent, localPlayer, players, helpers }) => (
   <div className="flex flex-col items-center gap-4">
     <h1 className="text-2xl font-semibold">Core Collapse</h1>
+    {helpers.resumeMatch && (
+      <button
+        onClick={helpers.resumeMatch.resume}
+        className="w-full max-w-sm rounded-2xl bg-emerald-900/40 border border-emerald-500/70 px-4 py-3 flex justify-between items-center text-sm"
+      >
+        <span className="font-semibold text-emerald-200">Resume match</span>
+        <span className="text-[11px] text-slate-300">{helpers.resumeMatch.label}</span>
+      </button>
+    )}
     <div className="w-full max-w-sm rounded-2xl bg-slate-950/80 border border-slate-800 p-4 flex flex-col gap-3">
       <label className="text-xs text-slate-400 flex flex-col gap-1">
         Callsign
@@ -19,8 +32,9 @@ const Lobby: React.FC<PhaseComponentProps> = ({ dispatchEvent, localPlayer, help
         Job
         <select
           value={localPlayer.job}
+          disabled={state.dealJobs}
           onChange={(e) => dispatchEvent("lobby.selectJob", e.target.value)}
-          className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-700 text-sm"
+          className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-700 text-sm disabled:opacity-50"
         >
           {JOBS.map((job) => (
             <option key={job} value={job}>
@@ -28,10 +42,119 @@ const Lobby: React.FC<PhaseComponentProps> = ({ dispatchEvent, localPlayer, help
             </option>
           ))}
         </select>
+        <span className="flex items-center gap-2 text-[11px] text-slate-300">
+          <input
+            type="checkbox"
+            checked={state.dealJobs}
+            onChange={(e) => dispatchEvent("lobby.setDealJobs", e.target.checked)}
+          />
+          Deal stations at random
+        </span>
+      </label>
+      <label className="text-xs text-slate-400 flex flex-col gap-1">
+        Crew size
+        <select
+          value={players.length}
+          onChange={(e) => dispatchEvent("lobby.setCrewSize", Number(e.target.value))}
+          className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-700 text-sm"
+        >
+          {CREW_SIZES.map((size) => (
+            <option key={size} value={size}>
+              {size} players
+            </option>
+          ))}
+        </select>
+        <span className="text-[10px] text-slate-500">
+          {getSaboteurCount(players.length)} hidden saboteur{getSaboteurCount(players.length) === 1 ? "" : "s"}; gate
+          and reactor limit scale with the crew.
+        </span>
+      </label>
+      <div className="text-xs text-slate-400 flex flex-col gap-1">
+        Bot callsigns
+        {players
+          .filter((p) => p.id !== localPlayer.id)
+          .map((bot) => (
+            <input
+              key={bot.id}
+              type="text"
+              value={bot.name}
+              aria-label={`Seat ${bot.seatIndex + 1} callsign`}
+              onChange={(e) => dispatchEvent("lobby.renameBot", { playerId: bot.id, name: e.target.value })}
+              className="w-full px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-700 text-sm"
+            />
+          ))}
+      </div>
+      <label className="text-xs text-slate-400 flex flex-col gap-1">
+        Bot difficulty
+        <select
+          value={state.botDifficulty}
+          onChange={(e) => dispatchEvent("lobby.setDifficulty", e.target.value)}
+          className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-700 text-sm capitalize"
+        >
+          {BOT_DIFFICULTIES.map((difficulty) => (
+            <option key={difficulty} value={difficulty}>
+              {difficulty}
+            </option>
+          ))}
+        </select>
+        <span className="text-[10px] text-slate-500">Harder saboteurs hide their sabotage better.</span>
+      </label>
+      <label className="text-xs text-slate-400 flex flex-col gap-1">
+        <span className="flex items-center gap-2 text-[11px] text-slate-300">
+          <input
+            type="checkbox"
+            checked={state.tribunal}
+            onChange={(e) => dispatchEvent("lobby.setTribunal", e.target.checked)}
+          />
+          Hold a Tribunal after each round
+        </span>
+        <span className="text-[10px] text-slate-500">Everyone votes to eject a suspect or skip.</span>
+      </label>
+      <label className="text-xs text-slate-400 flex flex-col gap-1">
+        Match seed
+        <input
+          type="text"
+          inputMode="numeric"
+          value={state.seed}
+          onChange={(e) => {
+            const seed = Number(e.target.value);
+            if (Number.isInteger(seed)) {
+              dispatchEvent("lobby.setSeed", seed);
+            }
+          }}
+          className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-700 text-sm font-mono"
+        />
+        <span className="text-[10px] text-slate-500">Same seed and same inputs replay the same match.</span>
       </label>
       <button onClick={() => dispatchEvent("lobby.ready")} className="w-full mt-2 px-4 py-2 rounded-lg bg-emerald-600 text-sm font-semibold">
         Ready Up
       </button>
+      <div className="flex flex-col gap-1 border-t border-slate-800 pt-3 text-[11px] text-slate-400">
+        Replays
+        <div className="flex gap-2 items-center">
+          {helpers.openReplay && (
+            <button
+              onClick={helpers.openReplay}
+              className="px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-700 text-xs text-slate-200"
+            >
+              Replay last match
+            </button>
+          )}
+          <label className="px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-700 text-xs text-slate-200 cursor-pointer">
+            Load log…
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) helpers.loadReplay?.(await file.text());
+              }}
+            />
+          </label>
+        </div>
+      </div>
     </div>
   </div>
 );
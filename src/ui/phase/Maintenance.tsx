@@ -1,9 +1,12 @@
 import React from "react";
+import { getReportedOutcome } from "../../game/minigame";
+import { describeSabotageTrace } from "../../game/sabotage";
+import { describeInputSummary, describeMinigameStats, describePauses } from "../../game/telemetry";
 import type { PhaseComponentProps } from "./types";
 
-const Maintenance: React.FC<PhaseComponentProps> = ({ state, dispatchEvent, players, helpers }) => {
+const Maintenance: React.FC<PhaseComponentProps> = ({ state, dispatchEvent, localPlayer, players, helpers }) => {
   const { RoundHeader, jobLabel } = helpers;
-  const { round, reactorLimit, shipHealth01, overloads, roundIndex } = state;
+  const { round, reactorLimit, shipHealth01, sabotageLog, tribunal, maintenanceResult } = state;
   const total = round.totalAfterItems;
   const outcome = round.outcome;
   const tierStyles: Record<string, string> = {
@@ -22,7 +25,16 @@ const Maintenance: React.FC<PhaseComponentProps> = ({ state, dispatchEvent, play
       : outcome === "Clear"
       ? "bg-emerald-900/60 border-emerald-500"
       : "bg-amber-900/40 border-amber-500";
-  const formatDelta = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+  // Extra grades such as PERFECT keep their config name.
+  const gradeLabel = (grade: string) =>
+    tierLabels[grade] ?? grade.charAt(0).toUpperCase() + grade.slice(1).toLowerCase();
+  const formatDelta = (value: number) => {
+    const rounded = Math.round(value * 100) / 100;
+    return rounded > 0 ? `+${rounded}` : `${rounded}`;
+  };
+  // The whole crew reports in seat order, each seat's station run and items together.
+  const seatOf = (playerId: string) => players.find((p) => p.id === playerId)?.seatIndex ?? players.length;
+  const systemCheck = [...round.minigameResults].sort((a, b) => seatOf(a.playerId) - seatOf(b.playerId));
   const totalReactorDelta = round.minigameResults.reduce((acc, r) => acc + r.deltaTotal, 0);
   const totalShipDelta = round.minigameResults.reduce((acc, r) => acc + r.deltaShipHP, 0);
   const overloaded = outcome === "Overload" || total > reactorLimit;
@@ -39,18 +51,29 @@ const Maintenance: React.FC<PhaseComponentProps> = ({ state, dispatchEvent, play
         <div className="text-[11px] uppercase tracking-wide text-slate-300">System Check</div>
         {round.minigameResults.length > 0 ? (
           <div className="mt-3 space-y-2">
-            {round.minigameResults.map((r, idx) => {
+            {systemCheck.map((r, idx) => {
               const player = players.find((p) => p.id === r.playerId);
-              const tierClass = tierStyles[r.tier] ?? "bg-slate-900/70 border-slate-600/70";
-              const label = tierLabels[r.tier] ?? r.tier;
+              // A SPOOFed run shows the grade its reported percent would earn.
+              const shown = getReportedOutcome(r);
+              const tierClass = tierStyles[shown.tier] ?? "bg-slate-900/70 border-slate-600/70";
+              const label = gradeLabel(shown.grade);
+              // Pauses are shown to the whole table so nobody stalls a run unseen.
+              const pauseNote = r.telemetry && describePauses(r.telemetry.pauses);
               return (
                 <div key={idx} className={`rounded-xl border p-3 ${tierClass}`}>
                   <div className="text-xs uppercase tracking-wide text-slate-200/90">
-                    {player?.name ?? "Unknown"} · {jobLabel(r.job)}
+                    {player?.name ?? "Unknown"} · {r.itemId ?? jobLabel(r.job)}
                   </div>
                   <div className="text-lg font-semibold text-slate-50 mt-1">
-                    {label} ({r.percentFinished}%)
+                    {label} ({shown.percentFinished}%)
                   </div>
+                  {r.telemetry && (
+                    <div className="text-[11px] text-slate-300 mt-1">
+                      {describeMinigameStats(r.telemetry.stats)}
+                      <span className="text-slate-400"> · {describeInputSummary(r.telemetry.inputs)}</span>
+                      {pauseNote && <span className="text-amber-300"> · {pauseNote}</span>}
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -59,6 +82,19 @@ const Maintenance: React.FC<PhaseComponentProps> = ({ state, dispatchEvent, play
           <div className="text-sm text-slate-200 mt-1">No system checks have been recorded.</div>
         )}
       </div>
+      {sabotageLog.length > 0 && (
+        <div className="rounded-2xl border border-red-900/70 bg-red-950/30 p-3">
+          <div className="text-[11px] text-red-300 uppercase tracking-wide">Anomalies</div>
+          <ul className="mt-2 text-[11px] text-slate-200 space-y-1">
+            {sabotageLog.map((use, idx) => (
+              <li key={idx} className="flex justify-between gap-2">
+                <span>{use.traced ? describeSabotageTrace(use, players) : `Your ${use.toolId} went unnoticed.`}</span>
+                {use.playerId === localPlayer.id && use.traced && <span className="text-red-300 shrink-0">yours</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
       {outcome && (
         <div className={`rounded-2xl border p-3 ${outcomeBannerColor}`}>
           <div className="text-sm text-slate-100">Round Outcome: {outcome}</div>
@@ -69,16 +105,19 @@ const Maintenance: React.FC<PhaseComponentProps> = ({ state, dispatchEvent, play
         <div className="text-[11px] text-slate-400 uppercase tracking-wide">Station Effects</div>
         {round.minigameResults.length > 0 && (
           <div className="mt-1 text-[10px] text-slate-500 uppercase tracking-wide flex justify-between">
-            <span>Item</span>
+            <span>Source</span>
             <span>Reactor · Ship HP</span>
           </div>
         )}
         <ul className="mt-2 text-[11px] text-slate-200 space-y-1">
           {round.minigameResults.map((r, idx) => {
             const player = players.find((p) => p.id === r.playerId);
+            // No grade here: a SPOOFed grade beside the real deltas would give it away.
             return (
               <li key={idx} className="flex justify-between">
-                <span>{player?.name ?? jobLabel(r.job)}</span>
+                <span>
+                  {player?.name ?? jobLabel(r.job)} · {r.itemId ?? "Station"}
+                </span>
                 <span>
                   {formatDelta(r.deltaTotal)} · {formatDelta(r.deltaShipHP)}
                 </span>
@@ -101,7 +140,13 @@ const Maintenance: React.FC<PhaseComponentProps> = ({ state, dispatchEvent, play
       </div>
       <div className="flex justify-end">
         <button onClick={() => dispatchEvent("maintenance.resolve")} className="px-4 py-2 rounded-lg bg-emerald-600 text-sm font-semibold">
-          {overloads >= 2 || roundIndex >= 6 ? "Resolve & End Game" : "Resolve & Next Round"}
+          {maintenanceResult?.reason === "hullDestroyed"
+            ? "Resolve · Hull Breach"
+            : maintenanceResult
+            ? "Resolve & End Game"
+            : tribunal
+            ? "Resolve & Convene Tribunal"
+            : "Resolve & Next Round"}
         </button>
       </div>
     </div>
@@ -1,10 +1,27 @@
 import React from "react";
+import { describeCard, describeDeck, getCardFace } from "../../game/cards";
 import type { PhaseComponentProps } from "./types";
 
 const Plan: React.FC<PhaseComponentProps> = ({ state, dispatchEvent, localPlayer, players, helpers }) => {
-  const { RoundHeader, JobBadge } = helpers;
-  const { round, reactorLimit, shipHealth01, hand, slotCard } = state;
+  const { RoundHeader, JobBadge, CardFace } = helpers;
+  const { round, roundIndex, reactorLimit, shipHealth01, hand, slotCard, decks, handSize, handCarryOver } = state;
+  const deckContents = describeDeck(state.deckSize, state.specialCards);
   const localCard = round.cardsPlayed[localPlayer.id];
+  const localDeck = decks[localPlayer.id];
+  const isEjected = state.ejected.includes(localPlayer.id);
+  const canLock = localCard != null || isEjected;
+  const nameOf = (playerId: string) => players.find((p) => p.id === playerId)?.name ?? "Unknown";
+  const lastTribunal = state.tribunals.find((record) => record.roundIndex === roundIndex - 1);
+  const ejectedPlayer = players.find((p) => p.id === lastTribunal?.ejectedId);
+  // This round's scans and redraws, plus any probe aimed at this round or the next.
+  const intel = state.reveals.filter((reveal) =>
+    reveal.kind === "gateProbe" ? reveal.forRound >= roundIndex : reveal.roundIndex === roundIndex,
+  );
+  const carryOverNote: Record<typeof handCarryOver, string> = {
+    keep: "Unplayed cards stay in hand.",
+    discard: "Unplayed cards are discarded each round.",
+    return: "Unplayed cards are shuffled back each round.",
+  };
 
   return (
     <div className="flex flex-col gap-4 w-full max-w-md">
@@ -15,56 +32,115 @@ const Plan: React.FC<PhaseComponentProps> = ({ state, dispatchEvent, localPlayer
         enginePower={round.totalAfterItems}
       />
 
-      <p className="text-[11px] text-slate-300 text-center">Draw 5 from your 1–9 deck. Place 1 into the power slot.</p>
+      {lastTribunal && (
+        <div className="rounded-xl bg-amber-950/40 border border-amber-500/60 p-2.5 text-[11px] text-slate-200 text-center">
+          {ejectedPlayer
+            ? `The Tribunal ejected ${ejectedPlayer.name}. They were ${
+                ejectedPlayer.role === "Saboteur" ? "a Saboteur" : "Crew"
+              }.`
+            : "The Tribunal ejected no one."}
+        </div>
+      )}
+
+      {isEjected && (
+        <p className="text-[11px] text-slate-400 text-center">
+          You were ejected. Your card and station sit out; lock in to let the crew play on.
+        </p>
+      )}
 
-      <div className="rounded-2xl bg-slate-950/90 border border-slate-800 p-3 flex flex-col gap-3">
-        <div className="flex flex-col items-center">
-          <div className="text-[11px] text-slate-400">Power slot</div>
-          <div className="mt-1">
-            <div
-              className={`w-14 h-20 rounded-xl border flex items-center justify-center text-lg font-semibold ${
-                slotCard != null
-                  ? "bg-emerald-500 text-slate-950 border-emerald-300"
-                  : "bg-slate-900 text-slate-500 border-dashed border-slate-600"
-              }`}
-            >
-              {slotCard ?? "?"}
+      <p className="text-[11px] text-slate-300 text-center">
+        Hands hold {handSize} from your own deck of {deckContents}. Place 1 into the power slot.{" "}
+        {carryOverNote[handCarryOver]}
+      </p>
+
+      {!isEjected && (
+        <div className="rounded-2xl bg-slate-950/90 border border-slate-800 p-3 flex flex-col gap-3">
+          <div className="flex flex-col items-center">
+            <div className="text-[11px] text-slate-400">Power slot</div>
+            <div className="mt-1">
+              {slotCard != null ? (
+                <div className="rounded-xl ring-2 ring-emerald-400">
+                  <CardFace card={slotCard} size="lg" />
+                </div>
+              ) : (
+                <div className="w-14 h-20 rounded-xl border flex items-center justify-center text-lg font-semibold bg-slate-900 text-slate-500 border-dashed border-slate-600">
+                  ?
+                </div>
+              )}
             </div>
+            {slotCard != null && <div className="mt-1 text-[10px] text-slate-400">{describeCard(slotCard)}</div>}
           </div>
-        </div>
 
-        <div className="flex flex-col items-center">
-          <div className="text-[11px] text-slate-400 mb-1 text-center">Your hand</div>
-          <div className="flex flex-wrap justify-center gap-1.5">
-            {hand.length === 0 && <span className="text-[11px] text-slate-500">Dealing…</span>}
-            {hand.map((v) => (
-              <button
-                key={v}
-                onClick={() => dispatchEvent("plan.chooseCard", v)}
-                className="w-10 h-14 rounded-xl border bg-slate-900 border-slate-700 text-sm flex items-center justify-center"
-              >
-                {v}
-              </button>
-            ))}
+          <div className="flex flex-col items-center">
+            <div className="text-[11px] text-slate-400 mb-1 text-center">Your hand</div>
+            <div className="flex flex-wrap justify-center gap-1.5">
+              {hand.length === 0 && <span className="text-[11px] text-slate-500">Dealing…</span>}
+              {hand.map((card) => (
+                <CardFace key={card.id} card={card} onClick={() => dispatchEvent("plan.chooseCard", card.id)} />
+              ))}
+            </div>
           </div>
+
+          {localDeck && (
+            <div className="flex justify-between text-[11px] text-slate-400 border-t border-slate-800 pt-2">
+              <span>Deck {localDeck.draw.length}</span>
+              <span>
+                Discard {localDeck.discard.length}
+                {localDeck.discard.length > 0 && (
+                  <span className="text-slate-500"> ({localDeck.discard.map(getCardFace).join(", ")})</span>
+                )}
+              </span>
+            </div>
+          )}
         </div>
-      </div>
+      )}
+
+      {intel.length > 0 && (
+        <div className="rounded-xl bg-indigo-950/40 border border-indigo-500/50 p-2.5 text-[11px] text-slate-300 flex flex-col gap-1">
+          <div className="font-semibold text-indigo-200">Private intel</div>
+          {intel.map((reveal, idx) => (
+            <div key={idx} className="flex justify-between items-center">
+              {reveal.kind === "scan" && (
+                <>
+                  <span>SCAN · {nameOf(reveal.targetId)}</span>
+                  {reveal.card ? <CardFace card={reveal.card} /> : <span className="text-slate-500">No card yet</span>}
+                </>
+              )}
+              {reveal.kind === "redraw" && <span>REDRAW · drew {reveal.cards} fresh cards</span>}
+              {reveal.kind === "gateProbe" && (
+                <span>
+                  GATE PROBE · Round {reveal.forRound} gate is {reveal.min}–{reveal.max}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
 
       <div className="rounded-xl bg-slate-950/80 border border-slate-800 p-2.5 text-[11px] text-slate-400">
         <div className="font-semibold text-slate-200 mb-1">Crew</div>
         {players.map((p) => (
           <div key={p.id} className="flex justify-between items-center">
-            <span>{p.id === localPlayer.id ? `${p.name} (You)` : p.name}</span>
-            <JobBadge job={p.job} compact />
+            <span className={state.ejected.includes(p.id) ? "line-through text-slate-600" : undefined}>
+              {p.id === localPlayer.id ? `${p.name} (You)` : p.name}
+            </span>
+            <span className="flex items-center gap-2">
+              {decks[p.id] && (
+                <span className="text-[10px] text-slate-500">
+                  deck {decks[p.id].draw.length} · discard {decks[p.id].discard.length}
+                </span>
+              )}
+              <JobBadge job={p.job} compact />
+            </span>
           </div>
         ))}
       </div>
       <div className="flex justify-end">
         <button
           onClick={() => dispatchEvent("plan.lock")}
-          disabled={localCard == null}
+          disabled={!canLock}
           className={`px-4 py-2 rounded-lg text-sm font-semibold border ${
-            localCard != null
+            canLock
               ? "bg-emerald-600 border-emerald-500"
               : "bg-slate-900 border-slate-700 text-slate-500 cursor-not-allowed"
           }`}
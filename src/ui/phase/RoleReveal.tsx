@@ -1,8 +1,9 @@
 import React from "react";
 import type { PhaseComponentProps } from "./types";
 
-const RoleReveal: React.FC<PhaseComponentProps> = ({ dispatchEvent, localPlayer, helpers }) => {
+const RoleReveal: React.FC<PhaseComponentProps> = ({ state, dispatchEvent, localPlayer, helpers }) => {
   const { RoleBadge, JobBadge } = helpers;
+  const { roundsMax, clearsToWin, overloadsToLose, tribunal } = state;
 
   return (
     <div className="flex flex-col items-center gap-4">
@@ -21,7 +22,9 @@ const RoleReveal: React.FC<PhaseComponentProps> = ({ dispatchEvent, localPlayer,
           </div>
         </div>
         <p className="text-[11px] text-slate-300 mt-2">
-          Crew: clear 4+ hazards in 6 rounds without 2 overloads. Saboteur: force 2 overloads or keep clears &lt; 4.
+          Crew: clear {clearsToWin}+ hazards in {roundsMax} rounds without {overloadsToLose} overloads. Saboteur:
+          force {overloadsToLose} overloads or keep clears &lt; {clearsToWin}.
+          {tribunal && " Between rounds the Tribunal votes to eject a suspect."}
         </p>
       </div>
       <button onClick={() => dispatchEvent("roleReveal.continue")} className="px-4 py-2 rounded-lg bg-emerald-600 text-sm font-semibold">
@@ -0,0 +1,62 @@
+import React from "react";
+import type { PhaseComponentProps } from "./types";
+
+const Tribunal: React.FC<PhaseComponentProps> = ({ state, dispatchEvent, localPlayer, players, helpers }) => {
+  const { JobBadge } = helpers;
+  const { round, roundIndex, ejected } = state;
+  const [vote, setVote] = React.useState<string | null>(null);
+  const isEjected = ejected.includes(localPlayer.id);
+  const suspects = players.filter((p) => p.id !== localPlayer.id && !ejected.includes(p.id));
+
+  return (
+    <div className="flex flex-col gap-4 w-full max-w-md">
+      <div className="rounded-2xl border border-amber-500/70 bg-amber-950/40 p-4">
+        <div className="text-[11px] uppercase tracking-wide text-amber-300">Tribunal · Round {roundIndex}</div>
+        <p className="text-sm text-slate-100 mt-1">
+          The round ended in {round.outcome ?? "silence"}. Vote to eject a suspect, or skip. A seat is ejected only
+          with more votes than skips and no tie.
+        </p>
+      </div>
+
+      {isEjected ? (
+        <div className="rounded-xl bg-slate-950/80 border border-slate-800 p-3 text-[11px] text-slate-400">
+          You were ejected and can no longer vote. The rest of the crew decides.
+        </div>
+      ) : (
+        <div className="rounded-xl bg-slate-950/80 border border-slate-800 p-2.5 flex flex-col gap-1.5">
+          {suspects.map((p) => (
+            <button
+              key={p.id}
+              onClick={() => setVote(p.id)}
+              className={`flex justify-between items-center px-3 py-2 rounded-lg border text-sm ${
+                vote === p.id ? "bg-red-900/50 border-red-500/70" : "bg-slate-900 border-slate-700"
+              }`}
+            >
+              <span>{p.name}</span>
+              <JobBadge job={p.job} compact />
+            </button>
+          ))}
+          <button
+            onClick={() => setVote(null)}
+            className={`px-3 py-2 rounded-lg border text-sm ${
+              vote === null ? "bg-slate-700 border-slate-500" : "bg-slate-900 border-slate-700"
+            }`}
+          >
+            Skip vote
+          </button>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => dispatchEvent("tribunal.vote", isEjected ? null : vote)}
+          className="px-4 py-2 rounded-lg bg-amber-600 text-sm font-semibold"
+        >
+          {isEjected ? "Continue" : vote ? "Cast Vote" : "Skip"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Tribunal;
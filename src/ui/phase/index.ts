@@ -6,3 +6,4 @@ export { default as EngagePhase } from "./Engage";
 export { default as MaintenancePhase } from "./Maintenance";
 export { default as GameOverPhase } from "./GameOver";
 export type { PhaseComponentProps, PhaseUIDispatch, PhaseUIHelpers, PhaseUIState } from "./types";
+export { phaseComponentMap, toPhaseUIState } from "./registry";
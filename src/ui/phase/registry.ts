@@ -0,0 +1,61 @@
+import type React from "react";
+import { getCachedBalanceConfig, type BalanceConfig } from "../../game/config";
+import { getLocalPlayer, getMaintenanceResult, getShipHealth01, type GameState } from "../../game/engine";
+import { getMatchResult } from "../../game/matchResult";
+import type { Phase } from "../../game/types";
+import EngagePhase from "./Engage";
+import GameOverPhase from "./GameOver";
+import IgnitionPhase from "./Ignition";
+import LobbyPhase from "./Lobby";
+import MaintenancePhase from "./Maintenance";
+import PlanPhase from "./Plan";
+import RoleRevealPhase from "./RoleReveal";
+import TribunalPhase from "./Tribunal";
+import type { PhaseComponentProps, PhaseUIState } from "./types";
+
+export const phaseComponentMap: Partial<Record<Phase, React.FC<PhaseComponentProps>>> = {
+  Lobby: LobbyPhase,
+  RoleReveal: RoleRevealPhase,
+  Plan: PlanPhase,
+  Ignition: IgnitionPhase,
+  Engage: EngagePhase,
+  Maintenance: MaintenancePhase,
+  Tribunal: TribunalPhase,
+  GameOver: GameOverPhase,
+};
+
+export const toPhaseUIState = (
+  game: GameState,
+  balance: BalanceConfig = getCachedBalanceConfig(),
+): PhaseUIState => {
+  const localId = getLocalPlayer(game)?.id ?? "";
+  return {
+    round: game.round,
+    roundIndex: game.roundIndex,
+    reactorLimit: game.reactorLimit,
+    shipHealth01: getShipHealth01(game),
+    shipHP: game.shipHP,
+    overloads: game.overloads,
+    clears: game.clears,
+    hand: game.hand,
+    slotCard: game.slotCard,
+    decks: game.decks,
+    reveals: game.reveals[localId] ?? [],
+    sabotageLog: game.round.sabotage.filter((use) => use.traced || use.playerId === localId),
+    seed: game.seed,
+    botDifficulty: game.botDifficulty,
+    dealJobs: game.dealJobs,
+    tribunal: game.tribunal,
+    ejected: game.ejected,
+    tribunals: game.tribunals,
+    result: getMatchResult(game, balance),
+    maintenanceResult: game.phase === "Maintenance" ? getMaintenanceResult(game, balance) : null,
+    roundsMax: balance.roundsMax,
+    deckSize: balance.deckSize,
+    specialCards: balance.specialCards,
+    handSize: balance.handSize,
+    handCarryOver: balance.handCarryOver,
+    clearsToWin: balance.clearsToWin,
+    overloadsToLose: balance.overloadsToLose,
+  };
+};
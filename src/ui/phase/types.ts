@@ -1,5 +1,19 @@
 import type React from "react";
-import type { Job, Player, Role, RoundState } from "../../game/types";
+import type { BotDifficulty } from "../../game/bots";
+import type { PlayerDeck } from "../../game/deck";
+import type { MatchResult } from "../../game/matchResult";
+import type {
+  Card,
+  HandCarryOver,
+  ItemReveal,
+  Job,
+  Player,
+  Role,
+  RoundState,
+  SabotageUse,
+  SpecialCardRules,
+  TribunalRecord,
+} from "../../game/types";
 
 export type PhaseUIState = {
   round: RoundState;
@@ -9,8 +23,31 @@ export type PhaseUIState = {
   shipHP: number;
   overloads: number;
   clears: number;
-  hand: number[];
-  slotCard: number | null;
+  hand: Card[];
+  slotCard: Card | null;
+  decks: Record<string, PlayerDeck>;
+  /** The local player's own Plan-item intel; other seats' reveals stay hidden. */
+  reveals: ItemReveal[];
+  /** This round's traced sabotage, plus any untraced uses by the local player. */
+  sabotageLog: SabotageUse[];
+  seed: number;
+  botDifficulty: BotDifficulty;
+  dealJobs: boolean;
+  tribunal: boolean;
+  /** Seats voted off the ship. */
+  ejected: string[];
+  tribunals: TribunalRecord[];
+  /** Who won and why, once the match is decided. */
+  result: MatchResult | null;
+  /** How resolving this Maintenance would end the match; null when play goes on. */
+  maintenanceResult: MatchResult | null;
+  roundsMax: number;
+  deckSize: number;
+  specialCards: SpecialCardRules;
+  handSize: number;
+  handCarryOver: HandCarryOver;
+  clearsToWin: number;
+  overloadsToLose: number;
 };
 
 export type PhaseUIDispatch = (event: string, payload?: unknown) => void;
@@ -18,6 +55,7 @@ export type PhaseUIDispatch = (event: string, payload?: unknown) => void;
 export type PhaseUIHelpers = {
   JobBadge: React.ComponentType<{ job: Job; compact?: boolean }>;
   RoleBadge: React.ComponentType<{ role: Role }>;
+  CardFace: React.ComponentType<{ card: Card; size?: "sm" | "lg"; onClick?: () => void }>;
   RoundHeader: React.ComponentType<{
     gate: number;
     reactorLimit: number;
@@ -27,6 +65,12 @@ export type PhaseUIHelpers = {
   jobLabel: (job: Job) => string;
   energyLabel: (value: number) => string;
   openInventory?: () => void;
+  /** Present once a finished match log is available. */
+  downloadMatchLog?: () => void;
+  openReplay?: () => void;
+  loadReplay?: (text: string) => void;
+  /** Present in the Lobby while an unfinished match is saved. */
+  resumeMatch?: { label: string; resume: () => void };
 };
 
 export type PhaseComponentProps = {
@@ -0,0 +1,115 @@
+import React from "react";
+import { getLocalPlayer } from "../../game/engine";
+import { buildReplayFrames, recheckMinigameRecording, type MatchLog } from "../../game/replay";
+import { phaseComponentMap, toPhaseUIState } from "../phase/registry";
+import type { PhaseUIHelpers } from "../phase/types";
+
+type ReplayViewerProps = {
+  log: MatchLog;
+  helpers: PhaseUIHelpers;
+  onClose: () => void;
+};
+
+const formatEvent = (event: string, payload: unknown) =>
+  payload === undefined ? event : `${event} (${JSON.stringify(payload)})`;
+
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ log, helpers, onClose }) => {
+  const frames = React.useMemo(() => buildReplayFrames(log), [log]);
+  const [index, setIndex] = React.useState(0);
+  const frame = frames[Math.min(index, frames.length - 1)];
+  const { state, event } = frame;
+  const localPlayer = getLocalPlayer(state);
+  const PhaseComponent = phaseComponentMap[state.phase];
+
+  // The replayed phase is read-only: no inventory, downloads or nested replays.
+  const replayHelpers: PhaseUIHelpers = {
+    ...helpers,
+    openInventory: undefined,
+    downloadMatchLog: undefined,
+    openReplay: undefined,
+    loadReplay: undefined,
+    resumeMatch: undefined,
+  };
+
+  const running = state.activeMinigame;
+  const minigame = running
+    ? log.minigames.find(
+        (m) => m.roundIndex === state.roundIndex && m.playerId === running.playerId && m.itemId === running.itemId,
+      )
+    : undefined;
+  const rechecked = minigame ? recheckMinigameRecording(log, minigame) : null;
+
+  return (
+    <div className="absolute inset-0 z-40 flex flex-col gap-3 rounded-2xl bg-slate-950/95 p-4 overflow-y-auto">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-col">
+          <span className="text-[11px] text-slate-400 uppercase tracking-wide">Replay</span>
+          <span className="text-xs text-slate-200 font-mono">Seed {log.seed}</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="h-6 w-6 rounded-full bg-slate-900 border border-slate-600 flex items-center justify-center text-xs text-slate-300"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="rounded-xl bg-slate-900/80 border border-slate-700 p-3 flex flex-col gap-2">
+        <input
+          type="range"
+          min={0}
+          max={frames.length - 1}
+          value={index}
+          onChange={(e) => setIndex(Number(e.target.value))}
+          className="w-full accent-emerald-500"
+        />
+        <div className="flex justify-between items-center text-[11px] text-slate-300">
+          <button
+            onClick={() => setIndex((i) => Math.max(0, i - 1))}
+            disabled={index === 0}
+            className="px-2 py-1 rounded-lg bg-slate-800 border border-slate-600 disabled:opacity-40"
+          >
+            ◀ Prev
+          </button>
+          <span>
+            Step {index} / {frames.length - 1} · {state.phase}
+          </span>
+          <button
+            onClick={() => setIndex((i) => Math.min(frames.length - 1, i + 1))}
+            disabled={index === frames.length - 1}
+            className="px-2 py-1 rounded-lg bg-slate-800 border border-slate-600 disabled:opacity-40"
+          >
+            Next ▶
+          </button>
+        </div>
+        <div className="text-[10px] text-slate-400 font-mono truncate">
+          {event ? `${(event.at / 1000).toFixed(1)}s · ${formatEvent(event.event, event.payload)}` : "Match start"}
+        </div>
+        {minigame && (
+          <div className="text-[10px] text-emerald-300">
+            {minigame.itemId ? `${minigame.itemId} check` : "Station run"}: {minigame.inputs.length} inputs recorded ·{" "}
+            {minigame.percentFinished}%
+            {rechecked != null &&
+              (rechecked === minigame.percentFinished ? (
+                <span className="text-slate-400"> · inputs re-checked</span>
+              ) : (
+                <span className="text-amber-300"> · inputs replay to {rechecked}%</span>
+              ))}
+          </div>
+        )}
+      </div>
+
+      {PhaseComponent && localPlayer ? (
+        <div className="pointer-events-none flex justify-center">
+          <PhaseComponent
+            state={toPhaseUIState(state, log.balance)}
+            dispatchEvent={() => undefined}
+            localPlayer={localPlayer}
+            players={state.players}
+            helpers={replayHelpers}
+          />
+        </div>
+      ) : null}
+    </div>
+  );
+};
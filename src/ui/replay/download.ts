@@ -0,0 +1,11 @@
+import { serializeMatchLog, type MatchLog } from "../../game/replay";
+
+export const downloadMatchLog = (log: MatchLog): void => {
+  const blob = new Blob([serializeMatchLog(log)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `core-overload-${log.seed}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};